@@ -0,0 +1,246 @@
+import { ENGLISH_STOPWORDS, words } from './text';
+
+export interface AnalysisOptions {
+	/** Extra stopwords, added to the English list */
+	stopwords?: string[];
+	/** Use only the given stopwords instead of extending the English list */
+	replaceStopwords?: boolean;
+	/** Domain terms and phrases to rank higher when they occur */
+	vocabulary?: string[];
+	/** Number of keywords and keyphrases to return (default 10, from 1 to 50) */
+	keywordCount?: number;
+	/** Number of sentences in the summary (default 3) */
+	summarySentences?: number;
+}
+
+export interface ScoredTerm {
+	term: string;
+	score: number;
+}
+
+const VOCABULARY_BOOST = 2;
+const DEFAULT_KEYWORD_COUNT = 10;
+const MAX_KEYWORD_COUNT = 50;
+const MAX_PHRASE_WORDS = 4;
+const MAX_SUMMARY_CANDIDATES = 400;
+const MIN_SENTENCE_WORDS = 5;
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 1e-4;
+const PHRASE_BREAK = /[.,;:!?()[\]{}"“”|\n\t]|\s[-–—]\s/;
+
+/**
+ * Combine the English stopword list with configured stopwords
+ * @param options - Extra stopwords and whether they replace the English list
+ * @returns Set of lowercase stopwords
+ */
+export function buildStopwords(options: AnalysisOptions = {}): Set<string> {
+	const extra = (options.stopwords || []).flatMap((word) => words(word));
+	return new Set(options.replaceStopwords ? extra : [...ENGLISH_STOPWORDS, ...extra]);
+}
+
+function vocabularyTerms(options: AnalysisOptions): Set<string> {
+	return new Set((options.vocabulary || []).map((term) => words(term).join(' ')).filter((term) => term.length > 0));
+}
+
+function isContentWord(word: string, stopwords: Set<string>): boolean {
+	return word.length > 1 && !stopwords.has(word) && !/^\d+$/.test(word);
+}
+
+/**
+ * Strip Markdown and table syntax, URLs and code blocks so they do not count as words
+ */
+function prose(text: string): string {
+	return text
+		.replace(/```[\s\S]*?```/g, ' ')
+		.replace(/https?:\/\/\S+/g, ' ')
+		.replace(/^\s*\|?\s*:?-{3,}.*$/gm, ' ')
+		.replace(/^#{1,6}\s+/gm, '');
+}
+
+function round(value: number): number {
+	return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Rank single-word keywords by TF-IDF, treating each paragraph as a document
+ * @param text - Document text
+ * @param options - Stopwords, vocabulary and keyword count
+ * @returns Array of keywords with scores, best first
+ */
+export function extractKeywords(text: string, options: AnalysisOptions = {}): ScoredTerm[] {
+	const stopwords = buildStopwords(options);
+	const vocabulary = vocabularyTerms(options);
+	const paragraphs = prose(text)
+		.split(/\n\s*\n/)
+		.map((paragraph) => words(paragraph).filter((word) => isContentWord(word, stopwords)))
+		.filter((terms) => terms.length > 0);
+
+	const termFrequency = new Map<string, number>();
+	const documentFrequency = new Map<string, number>();
+	for (const terms of paragraphs) {
+		terms.forEach((term) => termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1));
+		new Set(terms).forEach((term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+	}
+
+	return [...termFrequency.entries()]
+		.map(([term, frequency]) => {
+			// Smoothed IDF stays positive, so a term that runs through every paragraph still ranks by frequency
+			const idf = 1 + Math.log((1 + paragraphs.length) / (1 + (documentFrequency.get(term) ?? 0)));
+			const boost = vocabulary.has(term) ? VOCABULARY_BOOST : 1;
+			return { term, score: round((1 + Math.log(frequency)) * idf * boost) };
+		})
+		.sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+		.slice(0, keywordCount(options));
+}
+
+/**
+ * Rank multi-word keyphrases with RAKE: candidate phrases are runs of content words between stopwords and punctuation
+ * @param text - Document text
+ * @param options - Stopwords, vocabulary and keyphrase count
+ * @returns Array of keyphrases with scores, best first
+ */
+export function extractKeyphrases(text: string, options: AnalysisOptions = {}): ScoredTerm[] {
+	const stopwords = buildStopwords(options);
+	const vocabulary = vocabularyTerms(options);
+	const phrases: string[][] = [];
+
+	for (const fragment of prose(text).split(PHRASE_BREAK)) {
+		let current: string[] = [];
+		for (const word of words(fragment)) {
+			if (isContentWord(word, stopwords)) {
+				current.push(word);
+			} else {
+				if (current.length > 0) {
+					phrases.push(current);
+				}
+				current = [];
+			}
+		}
+		if (current.length > 0) {
+			phrases.push(current);
+		}
+	}
+
+	const frequency = new Map<string, number>();
+	const degree = new Map<string, number>();
+	const windowCounts = new Map<string, number>();
+	const runs = new Set<string>();
+	const windows = new Set<string>();
+	for (const phrase of phrases) {
+		for (const word of phrase) {
+			frequency.set(word, (frequency.get(word) ?? 0) + 1);
+			degree.set(word, (degree.get(word) ?? 0) + phrase.length);
+		}
+		for (let size = 1; size <= Math.min(MAX_PHRASE_WORDS, phrase.length); size++) {
+			for (let start = 0; start + size <= phrase.length; start++) {
+				const key = phrase.slice(start, start + size).join(' ');
+				windowCounts.set(key, (windowCounts.get(key) ?? 0) + 1);
+				// Runs longer than a keyphrase contribute their multi-word windows as candidates
+				if (phrase.length > MAX_PHRASE_WORDS && size > 1) {
+					windows.add(key);
+				}
+			}
+		}
+		if (phrase.length <= MAX_PHRASE_WORDS) {
+			runs.add(phrase.join(' '));
+		}
+	}
+
+	// Windows of long runs only count as keyphrases when they recur
+	const phraseCounts = [...new Set([...runs, ...[...windows].filter((window) => (windowCounts.get(window) ?? 0) > 1)])].map(
+		(phrase) => [phrase, windowCounts.get(phrase) ?? 1] as const
+	);
+
+	return phraseCounts
+		.map(([phrase, count]) => {
+			const wordScore = phrase.split(' ').reduce((sum, word) => sum + (degree.get(word) ?? 0) / (frequency.get(word) ?? 1), 0);
+			const boost = vocabulary.has(phrase) || phrase.split(' ').some((word) => vocabulary.has(word)) ? VOCABULARY_BOOST : 1;
+			// Repeated phrases are more likely to be what the document is about than one long rare phrase
+			return { term: phrase, score: round(wordScore * (1 + Math.log(count)) * boost) };
+		})
+		.sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+		.slice(0, keywordCount(options));
+}
+
+function keywordCount(options: AnalysisOptions): number {
+	return Math.min(MAX_KEYWORD_COUNT, Math.max(1, Math.floor(options.keywordCount ?? DEFAULT_KEYWORD_COUNT)));
+}
+
+/**
+ * Split text into sentences, skipping headings, table rows and list markers
+ * @param text - Document text
+ * @returns Array of sentences in document order
+ */
+export function splitSentences(text: string): string[] {
+	return prose(text.replace(/^ {0,3}#{1,6}\s.*$/gm, ''))
+		.split(/\n\s*\n/)
+		.flatMap((block) =>
+			block
+				.split('\n')
+				.filter((line) => !line.trim().startsWith('|'))
+				.map((line) => line.replace(/^\s*([-*+]|\d+[.)])\s+/, ''))
+				.join(' ')
+				.replace(/\s+/g, ' ')
+				.trim()
+				.split(/(?<=[.!?])\s+(?=["“(]?[A-Z0-9])/)
+		)
+		.map((sentence) => sentence.trim())
+		.filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * Pick the most central sentences with TextRank: sentences are graph nodes weighted by shared words, ranked with PageRank
+ * @param text - Document text
+ * @param options - Stopwords, vocabulary and number of summary sentences
+ * @returns Array of summary sentences in document order
+ */
+export function summarize(text: string, options: AnalysisOptions = {}): string[] {
+	const count = Math.max(1, Math.floor(options.summarySentences ?? 3));
+	const stopwords = buildStopwords(options);
+	const vocabulary = vocabularyTerms(options);
+	const sentences = splitSentences(text)
+		.filter((sentence) => words(sentence).length >= MIN_SENTENCE_WORDS)
+		.slice(0, MAX_SUMMARY_CANDIDATES);
+	if (sentences.length <= count) {
+		return sentences;
+	}
+
+	const termSets = sentences.map((sentence) => new Set(words(sentence).filter((word) => isContentWord(word, stopwords))));
+	const weights = termSets.map((a, i) =>
+		termSets.map((b, j) => {
+			if (i === j || a.size === 0 || b.size === 0) {
+				return 0;
+			}
+			let shared = 0;
+			a.forEach((term) => (shared += b.has(term) ? (vocabulary.has(term) ? VOCABULARY_BOOST : 1) : 0));
+			return shared / (Math.log(a.size + 1) + Math.log(b.size + 1));
+		})
+	);
+	const outgoing = weights.map((row) => row.reduce((sum, weight) => sum + weight, 0));
+
+	let scores = sentences.map(() => 1);
+	for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+		const next = scores.map((_, i) => {
+			let incoming = 0;
+			for (let j = 0; j < scores.length; j++) {
+				if (outgoing[j] > 0) {
+					incoming += (weights[j][i] / outgoing[j]) * scores[j];
+				}
+			}
+			return 1 - DAMPING + DAMPING * incoming;
+		});
+		const delta = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+		scores = next;
+		if (delta < CONVERGENCE) {
+			break;
+		}
+	}
+
+	return scores
+		.map((score, index) => ({ score, index }))
+		.sort((a, b) => b.score - a.score || a.index - b.index)
+		.slice(0, count)
+		.sort((a, b) => a.index - b.index)
+		.map(({ index }) => sentences[index]);
+}
@@ -0,0 +1,234 @@
+import { FileParser } from './FileParser';
+import { listFilesAndFolders, listFilesRecursively, DriveItem } from './gdrive';
+import { resolveItem } from './paths';
+import { mapWithConcurrency } from './concurrency';
+import { failureFrom, ToolError, ToolErrorInfo } from './errors';
+import { AnalysisOptions } from './analysis';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+	GOOGLE_PROJECT_ID: string;
+}
+
+export interface ParseFolderOptions {
+	/** Include files in subfolders (default false) */
+	recursive?: boolean;
+	/** Only parse files of these MIME types; defaults to every supported type */
+	mimeTypes?: string[];
+	/** Maximum number of files to parse (default 25, at most 100) */
+	maxFiles?: number;
+}
+
+export interface BatchFileResult {
+	/** The ID or path that was asked for, for files that could not be resolved */
+	reference?: string;
+	fileId?: string;
+	name?: string;
+	path?: string;
+	success: boolean;
+	cached?: boolean;
+	fileType?: string;
+	wordCount?: number;
+	lineCount?: number;
+	/** True when only the start of a large text file was read */
+	truncated?: boolean;
+	summary?: string;
+	keywords?: string[];
+	error?: ToolErrorInfo;
+}
+
+export interface BatchKeyword {
+	term: string;
+	/** Sum over files of the term's score relative to each file's best keyword */
+	score: number;
+	/** Number of files the term is a keyword of */
+	files: number;
+}
+
+export interface BatchSummary {
+	totalFiles: number;
+	succeeded: number;
+	totalWords: number;
+	failedFiles: Array<{ reference: string; name?: string; code: string; message: string }>;
+	topKeywords: BatchKeyword[];
+}
+
+export interface BatchParseResult {
+	files: BatchFileResult[];
+	summary: BatchSummary;
+}
+
+export interface FolderParseResult extends BatchParseResult {
+	folderId: string;
+	/** Files matching the MIME type filter, parsed or not */
+	matched: number;
+	/** Matching files left out by maxFiles */
+	remaining: number;
+	/** Files skipped because no parser supports their type; only counted without a mimeTypes filter */
+	unsupported: number;
+}
+
+export const MAX_BATCH_FILES = 100;
+const DEFAULT_FOLDER_MAX_FILES = 25;
+const PARSE_CONCURRENCY = 3;
+const FILE_KEYWORDS = 10;
+const TOP_KEYWORDS = 20;
+
+/**
+ * Parse and analyze one file, turning any failure into a per-file error
+ */
+async function parseOne(
+	env: Env,
+	reference: string,
+	resolve: () => Promise<{ id: string; name: string; path: string }>,
+	analysis: AnalysisOptions
+): Promise<{ result: BatchFileResult; keywordScores: Array<{ term: string; score: number }> }> {
+	let file: { id: string; name: string; path: string } | undefined;
+	try {
+		file = await resolve();
+		const parsed = await FileParser.parseFileFromDrive(file.id, env);
+		if (!parsed.success) {
+			return { result: { fileId: file.id, name: file.name, path: file.path, success: false, error: parsed.error }, keywordScores: [] };
+		}
+
+		const info = FileParser.extractKeyInformation(parsed.data!, analysis);
+		return {
+			result: {
+				fileId: file.id,
+				name: file.name,
+				path: file.path,
+				success: true,
+				cached: parsed.cached,
+				fileType: parsed.data!.metadata.fileType,
+				wordCount: info.wordCount,
+				lineCount: info.lineCount,
+				truncated: parsed.data!.metadata.truncated,
+				summary: info.summary,
+				keywords: info.keywords.slice(0, FILE_KEYWORDS),
+			},
+			keywordScores: info.keywordScores,
+		};
+	} catch (error) {
+		const failed = file ? { fileId: file.id, name: file.name, path: file.path } : { reference };
+		return { result: { ...failed, success: false, error: failureFrom(error).error }, keywordScores: [] };
+	}
+}
+
+/**
+ * Combine per-file keywords, scaling each file's scores by its best keyword so long files do not dominate
+ */
+function combineKeywords(perFile: Array<Array<{ term: string; score: number }>>): BatchKeyword[] {
+	const combined = new Map<string, BatchKeyword>();
+	for (const keywordScores of perFile) {
+		const best = keywordScores[0]?.score;
+		if (!best) {
+			continue;
+		}
+		for (const { term, score } of keywordScores) {
+			const entry = combined.get(term) ?? { term, score: 0, files: 0 };
+			entry.score += score / best;
+			entry.files++;
+			combined.set(term, entry);
+		}
+	}
+	return [...combined.values()]
+		.sort((a, b) => b.score - a.score || b.files - a.files)
+		.slice(0, TOP_KEYWORDS)
+		.map((keyword) => ({ ...keyword, score: Math.round(keyword.score * 1000) / 1000 }));
+}
+
+async function parseBatch(
+	env: Env,
+	items: Array<{ reference: string; resolve: () => Promise<{ id: string; name: string; path: string }> }>,
+	analysis: AnalysisOptions
+): Promise<BatchParseResult> {
+	const parsed = await mapWithConcurrency(items, PARSE_CONCURRENCY, (item) => parseOne(env, item.reference, item.resolve, analysis));
+	const files = parsed.map(({ result }) => result);
+
+	return {
+		files,
+		summary: {
+			totalFiles: files.length,
+			succeeded: files.filter((file) => file.success).length,
+			totalWords: files.reduce((sum, file) => sum + (file.wordCount ?? 0), 0),
+			failedFiles: files
+				.filter((file) => !file.success)
+				.map((file) => ({
+					reference: file.path || file.fileId || file.reference || '',
+					name: file.name,
+					code: file.error!.code,
+					message: file.error!.message,
+				})),
+			topKeywords: combineKeywords(parsed.map(({ keywordScores }) => keywordScores)),
+		},
+	};
+}
+
+/**
+ * Parse and analyze several files, at most PARSE_CONCURRENCY at a time. A file that fails does not stop the others.
+ * @param env - Environment variables for Google API
+ * @param references - File IDs or root-relative paths, at most MAX_BATCH_FILES
+ * @param analysis - Keyword and summary options for extractKeyInformation
+ * @returns Promise<BatchParseResult> - A result per file, in input order, and an aggregate summary
+ */
+export async function parseFiles(env: Env, references: string[], analysis: AnalysisOptions = {}): Promise<BatchParseResult> {
+	if (!Array.isArray(references) || references.length === 0) {
+		throw new ToolError('INVALID_ARGUMENT', 'fileIds must be a non-empty array of file IDs or paths');
+	}
+	if (references.length > MAX_BATCH_FILES) {
+		throw new ToolError('INVALID_ARGUMENT', `Too many files: ${references.length}. Parse at most ${MAX_BATCH_FILES} per call`);
+	}
+
+	return parseBatch(
+		env,
+		references.map((reference) => ({ reference, resolve: () => resolveItem(env, reference, 'file ID') })),
+		analysis
+	);
+}
+
+/**
+ * Parse and analyze the files in a folder, e.g. a folder of submissions
+ * @param env - Environment variables for Google API
+ * @param folder - Folder to parse, already confined to the root
+ * @param options - Whether to include subfolders, which MIME types to parse and how many files at most
+ * @param analysis - Keyword and summary options for extractKeyInformation
+ * @returns Promise<FolderParseResult> - A result per file in path order, an aggregate summary and how many files were left out
+ */
+export async function parseFolder(
+	env: Env,
+	folder: { id: string; path: string },
+	options: ParseFolderOptions = {},
+	analysis: AnalysisOptions = {}
+): Promise<FolderParseResult> {
+	const listing = options.recursive
+		? await listFilesRecursively(env, folder.id, folder.path)
+		: (await listFilesAndFolders(env, folder.id, folder.path)).filter((item) => !item.isFolder);
+
+	let matching: DriveItem[];
+	let unsupported = 0;
+	if (options.mimeTypes && options.mimeTypes.length > 0) {
+		matching = listing.filter((file) => options.mimeTypes!.includes(file.mimeType));
+	} else {
+		matching = listing.filter((file) => FileParser.isSupportedFileType(file.mimeType));
+		unsupported = listing.length - matching.length;
+	}
+	matching.sort((a, b) => a.path.localeCompare(b.path));
+
+	const maxFiles = Math.min(MAX_BATCH_FILES, Math.max(1, Math.floor(options.maxFiles ?? DEFAULT_FOLDER_MAX_FILES)));
+	const batch = matching.slice(0, maxFiles);
+	const result = await parseBatch(
+		env,
+		batch.map((file) => ({ reference: file.path, resolve: async () => file })),
+		analysis
+	);
+
+	return {
+		folderId: folder.id,
+		...result,
+		matched: matching.length,
+		remaining: matching.length - batch.length,
+		unsupported,
+	};
+}
@@ -0,0 +1,366 @@
+import { authorizedFetch } from './auth';
+import { DriveFileResource, FOLDER_MIME_TYPE } from './gdrive';
+import { getFolderIndex, FolderIndex } from './folderIndex';
+import { httpError, ToolError } from './errors';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+	DRIVE_STATE?: KVNamespace;
+}
+
+interface DriveChange {
+	changeType?: string;
+	fileId?: string;
+	removed?: boolean;
+	time?: string;
+	file?: DriveFileResource & { trashed?: boolean };
+}
+
+interface ChangesResponse {
+	changes?: DriveChange[];
+	nextPageToken?: string;
+	newStartPageToken?: string;
+}
+
+export type ChangeType = 'added' | 'modified' | 'moved' | 'trashed' | 'removed';
+
+export interface DriveChangeItem {
+	type: ChangeType;
+	fileId: string;
+	name: string;
+	mimeType: string;
+	isFolder: boolean;
+	/** Root-relative path, or undefined when the item left the root */
+	path?: string;
+	/** Root-relative path before a move, rename or deletion, when it was recorded in DRIVE_STATE */
+	previousPath?: string;
+	time?: string;
+	modifiedTime?: string;
+}
+
+export interface ChangeFeedOptions {
+	/** Group changes by folder instead of listing each item */
+	summary?: boolean;
+	/** Maximum number of Drive change pages to read in one call (default 5) */
+	maxPages?: number;
+}
+
+export interface FolderChangeSummary {
+	folderPath: string;
+	counts: Record<ChangeType, number>;
+	items: Array<{ type: ChangeType; name: string; fileId: string }>;
+}
+
+export interface ChangeFeedResult {
+	changes?: DriveChangeItem[];
+	folders?: FolderChangeSummary[];
+	total: number;
+	/** Token to pass to the next listChangesSince call */
+	nextPageToken: string;
+	/** True when more changes are waiting; call again with nextPageToken straight away */
+	hasMore: boolean;
+}
+
+interface ChangeCursor {
+	token: string;
+	since?: string;
+}
+
+export interface KnownItem {
+	name: string;
+	path: string;
+	parentId?: string;
+}
+
+const DRIVE_CHANGES_URL = 'https://www.googleapis.com/drive/v3/changes';
+const CHANGE_FIELDS =
+	'nextPageToken,newStartPageToken,changes(changeType,fileId,removed,time,file(id,name,mimeType,parents,trashed,createdTime,modifiedTime))';
+const DEFAULT_MAX_PAGES = 5;
+const MAX_PAGES = 20;
+const MAX_SUMMARY_ITEMS = 20;
+const STATE_PREFIX = 'items:';
+const STATE_SHARD_COUNT = 16;
+
+/**
+ * Wrap a Drive page token with the time it was issued, so items created after it can be reported as added
+ */
+export function encodeChangeCursor(cursor: ChangeCursor): string {
+	return btoa(JSON.stringify(cursor)).replace(/=+$/, '');
+}
+
+/**
+ * Read a page token returned by getStartPageToken or listChangesSince. Raw Drive page tokens are accepted too.
+ */
+export function decodeChangeCursor(pageToken: string): ChangeCursor {
+	if (/^\d+$/.test(pageToken)) {
+		return { token: pageToken };
+	}
+	try {
+		const cursor = JSON.parse(atob(pageToken)) as ChangeCursor;
+		if (typeof cursor.token === 'string' && cursor.token.length > 0) {
+			return cursor;
+		}
+	} catch {
+		// Fall through to the error below
+	}
+	throw new ToolError('INVALID_ARGUMENT', `Invalid page token: ${pageToken}`);
+}
+
+/**
+ * Get a page token for the current state of Drive. Pass it to listChangesSince later to see what changed in between.
+ * @param env - Environment variables for Google API
+ * @returns Promise<string> - Page token
+ */
+export async function getStartPageToken(env: Env): Promise<string> {
+	const response = await authorizedFetch(env, `${DRIVE_CHANGES_URL}/startPageToken?supportsAllDrives=true`);
+	if (!response.ok) {
+		throw await httpError(response, 'Failed to get start page token');
+	}
+
+	const data = (await response.json()) as { startPageToken?: string };
+	if (!data.startPageToken) {
+		throw new ToolError('INTERNAL', 'Drive did not return a start page token');
+	}
+	return encodeChangeCursor({ token: data.startPageToken, since: new Date().toISOString() });
+}
+
+async function fetchChangesPage(env: Env, pageToken: string): Promise<ChangesResponse> {
+	const query = new URLSearchParams({
+		pageToken,
+		pageSize: '1000',
+		fields: CHANGE_FIELDS,
+		includeRemoved: 'true',
+		supportsAllDrives: 'true',
+		includeItemsFromAllDrives: 'true',
+	});
+
+	const response = await authorizedFetch(env, `${DRIVE_CHANGES_URL}?${query}`);
+	if (!response.ok) {
+		throw await httpError(response, 'Failed to list changes');
+	}
+	return (await response.json()) as ChangesResponse;
+}
+
+interface StateShard {
+	items: Record<string, KnownItem>;
+}
+
+function shardOf(fileId: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < fileId.length; i++) {
+		hash ^= fileId.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0) % STATE_SHARD_COUNT;
+}
+
+/**
+ * Last known name and path of each item under one root, kept in KV so moves and deletions can be reported.
+ * Items are stored in STATE_SHARD_COUNT shards per root, so a call reads and writes each shard at most once
+ * however many items changed. Shards are namespaced by root, since callers with different roots see different
+ * paths for the same item.
+ */
+export class DriveState {
+	private readonly shards = new Map<number, StateShard>();
+	private readonly dirty = new Set<number>();
+
+	constructor(
+		private readonly kv: KVNamespace,
+		private readonly rootId: string
+	) {}
+
+	/**
+	 * Look up items, loading the shards that hold them
+	 * @returns Promise<Map<string, KnownItem>> - Known items by file ID
+	 */
+	async get(fileIds: string[]): Promise<Map<string, KnownItem>> {
+		const missing = [...new Set(fileIds.map(shardOf))].filter((shard) => !this.shards.has(shard));
+		await Promise.all(
+			missing.map(async (shard) => {
+				this.shards.set(shard, (await this.kv.get<StateShard>(this.keyFor(shard), 'json')) || { items: {} });
+			})
+		);
+
+		const known = new Map<string, KnownItem>();
+		for (const fileId of fileIds) {
+			const item = this.shards.get(shardOf(fileId))!.items[fileId];
+			if (item) {
+				known.set(fileId, item);
+			}
+		}
+		return known;
+	}
+
+	/**
+	 * Update or forget an item in memory. Its shard must have been loaded by get; call save to write it back.
+	 */
+	record(fileId: string, item: KnownItem | undefined): void {
+		const shard = shardOf(fileId);
+		const { items } = this.shards.get(shard)!;
+		if (item) {
+			items[fileId] = item;
+		} else {
+			delete items[fileId];
+		}
+		this.dirty.add(shard);
+	}
+
+	/**
+	 * Write every changed shard back to KV
+	 */
+	async save(): Promise<void> {
+		await Promise.all([...this.dirty].map((shard) => this.kv.put(this.keyFor(shard), JSON.stringify(this.shards.get(shard)))));
+		this.dirty.clear();
+	}
+
+	private keyFor(shard: number): string {
+		return `${STATE_PREFIX}${this.rootId}:${shard}`;
+	}
+}
+
+function classify(
+	change: DriveChange,
+	folderIndex: FolderIndex,
+	known: KnownItem | undefined,
+	since: string | undefined
+): { item?: DriveChangeItem; state?: KnownItem } {
+	const fileId = change.fileId ?? change.file?.id ?? '';
+	const file = change.file;
+
+	if (change.removed || !file) {
+		// Permanently deleted or no longer shared with the service account: only reportable if we saw it under the root
+		return known
+			? {
+					item: {
+						type: 'removed',
+						fileId,
+						name: known.name,
+						mimeType: '',
+						isFolder: false,
+						previousPath: known.path,
+						time: change.time,
+					},
+				}
+			: {};
+	}
+
+	const name = file.name ?? '';
+	const path = folderIndex.pathFor(name, file.parents);
+	if (path === undefined && !known) {
+		return {};
+	}
+
+	const parentId = (file.parents || []).find((id) => folderIndex.has(id));
+	const base = {
+		fileId,
+		name,
+		mimeType: file.mimeType ?? '',
+		isFolder: file.mimeType === FOLDER_MIME_TYPE,
+		path,
+		time: change.time,
+		modifiedTime: file.modifiedTime,
+	};
+	const state = path !== undefined ? { name, path, parentId } : undefined;
+
+	if (file.trashed) {
+		return { item: { ...base, type: 'trashed' }, state };
+	}
+	if (known && (path === undefined || known.path !== path)) {
+		return { item: { ...base, type: 'moved', previousPath: known.path }, state };
+	}
+	if (!known && since && file.createdTime && file.createdTime >= since) {
+		return { item: { ...base, type: 'added' }, state };
+	}
+	return { item: { ...base, type: 'modified' }, state };
+}
+
+function folderOf(item: DriveChangeItem): string {
+	const path = item.path ?? item.previousPath ?? '';
+	return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+/**
+ * Group changed items by the folder they are in (or were in, for items that left the root)
+ * @param changes - Changes from listChangesSince
+ * @returns Array of folders with change counts and up to 20 changed items each, busiest first
+ */
+export function summarizeChanges(changes: DriveChangeItem[]): FolderChangeSummary[] {
+	const folders = new Map<string, FolderChangeSummary>();
+	for (const change of changes) {
+		const folderPath = folderOf(change);
+		let folder = folders.get(folderPath);
+		if (!folder) {
+			folder = { folderPath, counts: { added: 0, modified: 0, moved: 0, trashed: 0, removed: 0 }, items: [] };
+			folders.set(folderPath, folder);
+		}
+		folder.counts[change.type]++;
+		if (folder.items.length < MAX_SUMMARY_ITEMS) {
+			folder.items.push({ type: change.type, name: change.name, fileId: change.fileId });
+		}
+	}
+
+	return [...folders.values()].sort((a, b) => b.items.length - a.items.length || a.folderPath.localeCompare(b.folderPath));
+}
+
+/**
+ * List what changed under the root folder since a page token was issued
+ * @param env - Environment variables for Google API, with the optional DRIVE_STATE KV binding used to detect moves and deletions
+ * @param pageToken - Token from getStartPageToken or a previous listChangesSince call
+ * @param options - Summary mode and page limit
+ * @returns Promise<ChangeFeedResult> - Changed items (or a per-folder summary) and the token for the next call
+ */
+export async function listChangesSince(env: Env, pageToken: string, options: ChangeFeedOptions = {}): Promise<ChangeFeedResult> {
+	const cursor = decodeChangeCursor(pageToken);
+	const maxPages = Math.min(Math.max(Math.floor(options.maxPages ?? DEFAULT_MAX_PAGES), 1), MAX_PAGES);
+
+	const driveChanges: DriveChange[] = [];
+	let token = cursor.token;
+	let nextCursor: ChangeCursor | undefined;
+	for (let page = 0; page < maxPages && !nextCursor; page++) {
+		const data = await fetchChangesPage(env, token);
+		driveChanges.push(...(data.changes || []));
+		if (data.newStartPageToken) {
+			nextCursor = { token: data.newStartPageToken, since: new Date().toISOString() };
+		} else if (data.nextPageToken) {
+			token = data.nextPageToken;
+		} else {
+			throw new ToolError('INTERNAL', 'Drive returned neither nextPageToken nor newStartPageToken');
+		}
+	}
+	const hasMore = !nextCursor;
+
+	// New folders are not in the cached folder index yet
+	const folderIndex = await getFolderIndex(
+		env,
+		driveChanges.some((change) => change.file?.mimeType === FOLDER_MIME_TYPE)
+	);
+	const state = env.DRIVE_STATE ? new DriveState(env.DRIVE_STATE, env.FOLDER_ID) : undefined;
+	const fileIds = [...new Set(driveChanges.map((change) => change.fileId ?? change.file?.id ?? '').filter((id) => id.length > 0))];
+	const known = state ? await state.get(fileIds) : new Map<string, KnownItem>();
+
+	// Drive reports each item once per page at most, but can repeat it across pages; keep the latest
+	const latest = new Map<string, DriveChange>();
+	driveChanges.forEach((change) => latest.set(change.fileId ?? change.file?.id ?? '', change));
+
+	const changes: DriveChangeItem[] = [];
+	for (const [fileId, change] of latest) {
+		if (!fileId || (change.changeType && change.changeType !== 'file')) {
+			continue;
+		}
+		const { item, state: nextState } = classify(change, folderIndex, known.get(fileId), cursor.since);
+		if (item) {
+			changes.push(item);
+			state?.record(fileId, nextState);
+		}
+	}
+	await state?.save();
+
+	return {
+		...(options.summary ? { folders: summarizeChanges(changes) } : { changes }),
+		total: changes.length,
+		nextPageToken: encodeChangeCursor(nextCursor ?? { token, since: cursor.since }),
+		hasMore,
+	};
+}
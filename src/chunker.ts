@@ -0,0 +1,254 @@
+import { ToolError } from './errors';
+
+export type ChunkUnit = 'chars' | 'tokens';
+
+export interface ChunkOptions {
+	chunkSize?: number;
+	unit?: ChunkUnit;
+	/** 1-based line on which each page starts, in page order */
+	pageStartLines?: number[];
+}
+
+export interface ContentChunk {
+	index: number;
+	text: string;
+	startLine: number;
+	endLine: number;
+	startPage?: number;
+	endPage?: number;
+	heading?: string;
+	charCount: number;
+	approxTokens: number;
+}
+
+export interface ChunkManifestEntry extends Omit<ContentChunk, 'text'> {
+	preview: string;
+}
+
+interface Block {
+	lines: string[];
+	startLine: number;
+	endLine: number;
+	heading?: string;
+}
+
+export const DEFAULT_CHUNK_SIZE = 8000;
+const MIN_CHUNK_CHARS = 200;
+const MAX_CHUNK_CHARS = 200000;
+const CHARS_PER_TOKEN = 4;
+const PREVIEW_CHARS = 120;
+const HEADING_PATTERN = /^#{1,6}\s+\S/;
+
+/**
+ * Estimate the number of model tokens in a piece of text
+ * @param text - Text to measure
+ * @returns number - Approximate token count
+ */
+export function approximateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Resolve a chunk size in the given unit to a character budget
+ * @param chunkSize - Requested chunk size
+ * @param unit - Unit of chunkSize
+ * @returns number - Maximum characters per chunk
+ */
+export function chunkCharBudget(chunkSize: number = DEFAULT_CHUNK_SIZE, unit: ChunkUnit = 'chars'): number {
+	if (!Number.isFinite(chunkSize) || chunkSize <= 0) {
+		throw new ToolError('INVALID_ARGUMENT', `Invalid chunk size: ${chunkSize}`);
+	}
+	const chars = unit === 'tokens' ? chunkSize * CHARS_PER_TOKEN : chunkSize;
+	return Math.min(Math.max(Math.floor(chars), MIN_CHUNK_CHARS), MAX_CHUNK_CHARS);
+}
+
+/**
+ * Find the page a line falls on
+ * @param line - 1-based line number
+ * @param pageStartLines - 1-based line on which each page starts
+ * @returns number - 1-based page number, or undefined when there are no pages
+ */
+export function pageAtLine(line: number, pageStartLines: number[] | undefined): number | undefined {
+	if (!pageStartLines || pageStartLines.length === 0) {
+		return undefined;
+	}
+	let page = 1;
+	for (let i = 0; i < pageStartLines.length && pageStartLines[i] <= line; i++) {
+		page = i + 1;
+	}
+	return page;
+}
+
+function toBlocks(content: string, pageStartLines: number[] | undefined): Block[] {
+	const pageStarts = new Set(pageStartLines || []);
+	const blocks: Block[] = [];
+	let current: Block | undefined;
+
+	const flush = () => {
+		if (current && current.lines.some((line) => line.trim().length > 0)) {
+			blocks.push(current);
+		}
+		current = undefined;
+	};
+
+	content.split('\n').forEach((line, index) => {
+		const lineNumber = index + 1;
+		const trimmed = line.trim();
+
+		if (pageStarts.has(lineNumber) || HEADING_PATTERN.test(trimmed)) {
+			flush();
+		}
+		if (trimmed.length === 0) {
+			flush();
+			return;
+		}
+
+		if (!current) {
+			current = { lines: [], startLine: lineNumber, endLine: lineNumber };
+			if (HEADING_PATTERN.test(trimmed)) {
+				current.heading = trimmed.replace(/^#+\s+/, '');
+			}
+		}
+		current.lines.push(line);
+		current.endLine = lineNumber;
+	});
+
+	flush();
+	return blocks;
+}
+
+function splitOversizedBlock(block: Block, maxChars: number): Block[] {
+	const pieces: Block[] = [];
+	let current: Block | undefined;
+	let length = 0;
+
+	block.lines.forEach((line, offset) => {
+		const lineNumber = block.startLine + offset;
+		const segments = line.length > maxChars ? line.match(new RegExp(`[\\s\\S]{1,${maxChars}}`, 'g')) || [line] : [line];
+
+		for (const segment of segments) {
+			if (current && length + segment.length + 1 > maxChars) {
+				pieces.push(current);
+				current = undefined;
+			}
+			if (!current) {
+				current = { lines: [], startLine: lineNumber, endLine: lineNumber, heading: pieces.length === 0 ? block.heading : undefined };
+				length = 0;
+			}
+			current.lines.push(segment);
+			current.endLine = lineNumber;
+			length += segment.length + 1;
+		}
+	});
+
+	if (current) {
+		pieces.push(current);
+	}
+	return pieces;
+}
+
+/**
+ * Split text into chunks no larger than the chunk size, preferring heading, page and paragraph boundaries
+ * @param content - Text to split
+ * @param options - Chunk size, unit and optional page start lines
+ * @returns Array of chunks with line and page ranges
+ */
+export function chunkContent(content: string, options: ChunkOptions = {}): ContentChunk[] {
+	const maxChars = chunkCharBudget(options.chunkSize, options.unit);
+	const pageStarts = new Set(options.pageStartLines || []);
+	const chunks: ContentChunk[] = [];
+	let parts: Block[] = [];
+	let length = 0;
+
+	const flush = () => {
+		if (parts.length === 0) {
+			return;
+		}
+		const text = parts.map((part) => part.lines.join('\n')).join('\n\n');
+		const startLine = parts[0].startLine;
+		const endLine = parts[parts.length - 1].endLine;
+		chunks.push({
+			index: chunks.length,
+			text,
+			startLine,
+			endLine,
+			startPage: pageAtLine(startLine, options.pageStartLines),
+			endPage: pageAtLine(endLine, options.pageStartLines),
+			heading: parts.find((part) => part.heading)?.heading,
+			charCount: text.length,
+			approxTokens: approximateTokens(text),
+		});
+		parts = [];
+		length = 0;
+	};
+
+	for (const block of toBlocks(content, options.pageStartLines)) {
+		for (const piece of splitOversizedBlock(block, maxChars)) {
+			const pieceLength = piece.lines.join('\n').length;
+			const isSoftBoundary = Boolean(piece.heading) || pageStarts.has(piece.startLine);
+
+			if (length > 0 && (length + pieceLength + 2 > maxChars || (isSoftBoundary && length >= maxChars / 2))) {
+				flush();
+			}
+
+			parts.push(piece);
+			length += pieceLength + (parts.length > 1 ? 2 : 0);
+		}
+	}
+
+	flush();
+	return chunks;
+}
+
+/**
+ * Describe chunks without their text, for returning a manifest to the caller
+ * @param chunks - Chunks from chunkContent
+ * @returns Array of manifest entries with a short preview of each chunk
+ */
+export function toChunkManifest(chunks: ContentChunk[]): ChunkManifestEntry[] {
+	return chunks.map(({ text, ...chunk }) => ({
+		...chunk,
+		preview: text.length > PREVIEW_CHARS ? `${text.substring(0, PREVIEW_CHARS)}...` : text,
+	}));
+}
+
+/**
+ * Chunk text and summarise the result as a manifest
+ * @param content - Text to split
+ * @param options - Chunk size, unit and optional page start lines
+ * @returns Object with the effective chunk settings, the chunk count and the manifest entries
+ */
+export function buildChunkManifest(
+	content: string,
+	options: ChunkOptions = {}
+): { chunkSize: number; chunkUnit: ChunkUnit; chunkCount: number; chunks: ChunkManifestEntry[] } {
+	const chunks = chunkContent(content, options);
+	const unit = options.unit ?? 'chars';
+	// Report the size after clamping, which is what the chunks were cut to
+	const maxChars = chunkCharBudget(options.chunkSize, unit);
+	return {
+		chunkSize: unit === 'tokens' ? maxChars / CHARS_PER_TOKEN : maxChars,
+		chunkUnit: unit,
+		chunkCount: chunks.length,
+		chunks: toChunkManifest(chunks),
+	};
+}
+
+/**
+ * Work out the 1-based line on which each page starts once the pages are joined with a separator
+ * @param pages - Text of each page
+ * @param separator - String placed between pages
+ * @returns Array of start lines, one per page
+ */
+export function pageStartLinesFor(pages: string[], separator = '\n\n'): number[] {
+	const separatorBreaks = separator.split('\n').length - 1;
+	const starts: number[] = [];
+	let line = 1;
+
+	for (const page of pages) {
+		starts.push(line);
+		line += page.split('\n').length - 1 + separatorBreaks;
+	}
+
+	return starts;
+}
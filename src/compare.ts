@@ -0,0 +1,282 @@
+import { ParsedContent } from './FileParser';
+import { diffLines, diffStats, unifiedDiff, splitLines, DiffOp, DiffStats } from './diff';
+import { flattenSections, parseOutline, HEADING_PATH_SEPARATOR } from './outline';
+import { words } from './text';
+import { ToolError } from './errors';
+
+export type CompareMode = 'lines' | 'sections' | 'similarity';
+
+export const COMPARE_MODES: CompareMode[] = ['lines', 'sections', 'similarity'];
+export const DEFAULT_COMPARE_MAX_CHARS = 20000;
+const MIN_COMPARE_MAX_CHARS = 500;
+export const SHINGLE_SIZE = 5;
+const PREAMBLE = '(before first heading)';
+
+export interface CompareOptions {
+	/** Unchanged lines shown around each change (default 3) */
+	context?: number;
+	/** Budget for the diff text across the whole result (default 20000 characters) */
+	maxChars?: number;
+}
+
+export interface ComparedFile {
+	name: string;
+	fileType: string;
+	lines: number;
+	words: number;
+}
+
+export interface LineComparison {
+	mode: 'lines';
+	stats: DiffStats;
+	hunks: number;
+	diff: string;
+	truncated: boolean;
+}
+
+export type SectionStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SectionChange {
+	/** Heading titles joined with " > " */
+	path: string;
+	status: Exclude<SectionStatus, 'unchanged'>;
+	stats: DiffStats;
+	/** Unified diff of the section's own text, with line numbers from the whole documents. Omitted once the budget is spent. */
+	diff?: string;
+}
+
+export interface SectionComparison {
+	mode: 'sections';
+	/** Number of sections in each state */
+	stats: Record<SectionStatus, number>;
+	/** Added, removed and changed sections in document order */
+	sections: SectionChange[];
+	truncated: boolean;
+}
+
+export interface SimilarityComparison {
+	mode: 'similarity';
+	shingleSize: number;
+	/** Shared shingles over all distinct shingles of both files, 0 to 1 */
+	jaccard: number;
+	/** Share of file A's shingles that also occur in file B */
+	containmentA: number;
+	/** Share of file B's shingles that also occur in file A */
+	containmentB: number;
+	shinglesA: number;
+	shinglesB: number;
+	sharedShingles: number;
+}
+
+export type FileComparison = { a: ComparedFile; b: ComparedFile } & (LineComparison | SectionComparison | SimilarityComparison);
+
+interface SectionBody {
+	path: string;
+	key: string;
+	lines: string[];
+	/** Line number of the first body line in the whole document */
+	firstLine: number;
+}
+
+function describe(parsed: ParsedContent): ComparedFile {
+	return {
+		name: parsed.metadata.fileName,
+		fileType: parsed.metadata.exportedAs ?? parsed.metadata.fileType,
+		lines: splitLines(parsed.content).length,
+		words: words(parsed.content).length,
+	};
+}
+
+function compareLines(a: ParsedContent, b: ParsedContent, options: CompareOptions): LineComparison {
+	const ops = diffLines(splitLines(a.content), splitLines(b.content));
+	const { diff, hunks, truncated } = unifiedDiff(ops, {
+		context: options.context,
+		oldLabel: a.metadata.fileName,
+		newLabel: b.metadata.fileName,
+		maxChars: options.maxChars,
+	});
+	return { mode: 'lines', stats: diffStats(ops), hunks, diff, truncated };
+}
+
+/**
+ * Split a document into the text each heading owns, up to its first subsection, plus any text before the first heading
+ */
+function sectionBodies(parsed: ParsedContent, side: string): SectionBody[] {
+	const sections = flattenSections((parsed.outline ?? parseOutline(parsed.content)).sections);
+	if (sections.length === 0) {
+		throw new ToolError(
+			'UNSUPPORTED_TYPE',
+			`File ${side} (${parsed.metadata.fileName}) has no headings to compare by. Use mode "lines" or "similarity" instead`
+		);
+	}
+
+	const lines = parsed.content.replace(/\r\n?/g, '\n').split('\n');
+	const bodies: SectionBody[] = [];
+	const occurrences = new Map<string, number>();
+	const add = (path: string, start: number, end: number) => {
+		const key = path.toLowerCase().replace(/\s+/g, ' ');
+		const seen = occurrences.get(key) ?? 0;
+		occurrences.set(key, seen + 1);
+		// Headings that repeat under the same parent are paired in order
+		bodies.push({ path, key: `${key}#${seen}`, lines: lines.slice(start, end), firstLine: start + 1 });
+	};
+
+	if (sections[0].startLine > 1 && lines.slice(0, sections[0].startLine - 1).some((line) => line.trim().length > 0)) {
+		add(PREAMBLE, 0, sections[0].startLine - 1);
+	}
+	for (const section of sections) {
+		const end = section.children.length > 0 ? section.children[0].startLine - 1 : section.endLine;
+		add(section.path.join(HEADING_PATH_SEPARATOR), section.startLine - 1, end);
+	}
+	return bodies;
+}
+
+/** Shift section-relative line numbers so hunks point into the whole documents */
+function offsetOps(ops: DiffOp[], oldOffset: number, newOffset: number): DiffOp[] {
+	return ops.map((op) => ({
+		...op,
+		oldLine: op.oldLine === undefined ? undefined : op.oldLine + oldOffset,
+		newLine: op.newLine === undefined ? undefined : op.newLine + newOffset,
+	}));
+}
+
+function compareSections(a: ParsedContent, b: ParsedContent, options: CompareOptions): SectionComparison {
+	const oldBodies = sectionBodies(a, 'A');
+	const newBodies = sectionBodies(b, 'B');
+	const oldByKey = new Map(oldBodies.map((body, index) => [body.key, index]));
+	const matched = new Set<number>();
+
+	// Walk file B in order, emitting the unmatched sections of file A where they used to sit
+	const pairs: Array<[SectionBody | undefined, SectionBody | undefined]> = [];
+	let nextOld = 0;
+	const flushRemoved = (until: number) => {
+		for (; nextOld < until; nextOld++) {
+			if (!matched.has(nextOld)) {
+				pairs.push([oldBodies[nextOld], undefined]);
+			}
+		}
+	};
+	for (const body of newBodies) {
+		const oldIndex = oldByKey.get(body.key);
+		if (oldIndex === undefined) {
+			pairs.push([undefined, body]);
+			continue;
+		}
+		matched.add(oldIndex);
+		flushRemoved(oldIndex);
+		pairs.push([oldBodies[oldIndex], body]);
+	}
+	flushRemoved(oldBodies.length);
+
+	const stats: Record<SectionStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+	const sections: SectionChange[] = [];
+	let budget = options.maxChars ?? Infinity;
+	let truncated = false;
+	for (const [oldBody, newBody] of pairs) {
+		const ops = offsetOps(
+			diffLines(oldBody?.lines ?? [], newBody?.lines ?? []),
+			(oldBody?.firstLine ?? 1) - 1,
+			(newBody?.firstLine ?? 1) - 1
+		);
+		const sectionStats = diffStats(ops);
+		let status: SectionStatus = 'unchanged';
+		if (!oldBody) {
+			status = 'added';
+		} else if (!newBody) {
+			status = 'removed';
+		} else if (sectionStats.added + sectionStats.removed > 0) {
+			status = 'changed';
+		}
+		stats[status]++;
+		if (status === 'unchanged') {
+			continue;
+		}
+
+		const path = (newBody ?? oldBody)!.path;
+		const change: SectionChange = { path, status, stats: sectionStats };
+		if (!truncated) {
+			const result = unifiedDiff(ops, {
+				context: options.context,
+				oldLabel: oldBody ? `${a.metadata.fileName}: ${path}` : '/dev/null',
+				newLabel: newBody ? `${b.metadata.fileName}: ${path}` : '/dev/null',
+				maxChars: budget,
+			});
+			if (result.diff.length > 0) {
+				change.diff = result.diff;
+				budget -= result.diff.length;
+			}
+			truncated = result.truncated;
+		}
+		sections.push(change);
+	}
+
+	return { mode: 'sections', stats, sections, truncated };
+}
+
+/**
+ * Overlapping runs of SHINGLE_SIZE words. Texts shorter than that form a single shingle.
+ */
+function shingles(text: string): Set<string> {
+	const tokens = words(text);
+	const result = new Set<string>();
+	if (tokens.length > 0 && tokens.length < SHINGLE_SIZE) {
+		result.add(tokens.join(' '));
+	}
+	for (let index = 0; index + SHINGLE_SIZE <= tokens.length; index++) {
+		result.add(tokens.slice(index, index + SHINGLE_SIZE).join(' '));
+	}
+	return result;
+}
+
+function ratio(part: number, whole: number): number {
+	return whole === 0 ? (part === 0 ? 1 : 0) : Math.round((part / whole) * 1000) / 1000;
+}
+
+function compareSimilarity(a: ParsedContent, b: ParsedContent): SimilarityComparison {
+	const oldShingles = shingles(a.content);
+	const newShingles = shingles(b.content);
+	let shared = 0;
+	for (const shingle of oldShingles) {
+		if (newShingles.has(shingle)) {
+			shared++;
+		}
+	}
+	return {
+		mode: 'similarity',
+		shingleSize: SHINGLE_SIZE,
+		jaccard: ratio(shared, oldShingles.size + newShingles.size - shared),
+		containmentA: ratio(shared, oldShingles.size),
+		containmentB: ratio(shared, newShingles.size),
+		shinglesA: oldShingles.size,
+		shinglesB: newShingles.size,
+		sharedShingles: shared,
+	};
+}
+
+/**
+ * Compare the parsed text of two files
+ * @param a - Parsed content of the first file
+ * @param b - Parsed content of the second file
+ * @param mode - "lines" for a unified diff, "sections" to diff heading by heading, "similarity" for word-shingle overlap
+ * @param options - Context lines and a character budget for diff text
+ * @returns FileComparison - Both files' sizes and the comparison for the mode
+ */
+export function compareContents(
+	a: ParsedContent,
+	b: ParsedContent,
+	mode: CompareMode = 'lines',
+	options: CompareOptions = {}
+): FileComparison {
+	const budgeted = { ...options, maxChars: Math.max(MIN_COMPARE_MAX_CHARS, options.maxChars ?? DEFAULT_COMPARE_MAX_CHARS) };
+	const files = { a: describe(a), b: describe(b) };
+	switch (mode) {
+		case 'lines':
+			return { ...files, ...compareLines(a, b, budgeted) };
+		case 'sections':
+			return { ...files, ...compareSections(a, b, budgeted) };
+		case 'similarity':
+			return { ...files, ...compareSimilarity(a, b) };
+		default:
+			throw new ToolError('INVALID_ARGUMENT', `Unknown compare mode: ${mode}. Use one of ${COMPARE_MODES.join(', ')}`);
+	}
+}
@@ -0,0 +1,22 @@
+/**
+ * Map over items with at most `limit` calls to `fn` in flight at once
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async function applied to each item
+ * @returns Promise<R[]> - Results in the same order as the input items
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+	let next = 0;
+
+	const worker = async (): Promise<void> => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index], index);
+		}
+	};
+
+	await Promise.all(Array.from({ length: workerCount }, worker));
+	return results;
+}
@@ -0,0 +1,395 @@
+import { FileParser } from './FileParser';
+import { listFilesRecursively } from './gdrive';
+import { mapWithConcurrency } from './concurrency';
+import { getFolderIndex } from './folderIndex';
+import { tokenize } from './text';
+import { pageAtLine, pageStartLinesFor } from './chunker';
+import { ToolError } from './errors';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+	GOOGLE_PROJECT_ID: string;
+	CONTENT_INDEX?: KVNamespace;
+}
+
+export interface Passage {
+	text: string;
+	startLine: number;
+	endLine: number;
+	page?: number;
+}
+
+export interface IndexedFile {
+	name: string;
+	mimeType: string;
+	modifiedTime: string;
+	rootId: string;
+	passageCount: number;
+	totalLength: number;
+	indexedAt: string;
+	error?: string;
+}
+
+export interface IndexDocument {
+	fileId: string;
+	file: IndexedFile;
+	passages: Passage[];
+}
+
+export interface ContentSearchResult {
+	fileId: string;
+	fileName: string;
+	mimeType: string;
+	score: number;
+	passageIndex: number;
+	startLine: number;
+	endLine: number;
+	page?: number;
+	text: string;
+}
+
+export interface IndexFolderOptions {
+	maxFiles?: number;
+	force?: boolean;
+}
+
+export interface IndexFolderResult {
+	folderId: string;
+	indexed: Array<{ fileId: string; name: string; passages: number }>;
+	failed: Array<{ fileId: string; name: string; error: string }>;
+	removed: number;
+	unchanged: number;
+	remaining: number;
+}
+
+interface IndexManifest {
+	version: number;
+	files: Record<string, IndexedFile>;
+}
+
+/** Postings for one term: fileId -> [passage index, term frequency, passage length] */
+type Postings = Record<string, Array<[number, number, number]>>;
+
+interface TermShard {
+	terms: Record<string, Postings>;
+}
+
+const MANIFEST_KEY = 'manifest';
+const MANIFEST_VERSION = 1;
+const SHARD_COUNT = 16;
+const PASSAGE_TARGET_CHARS = 600;
+const PASSAGE_MAX_CHARS = 1200;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const DEFAULT_MAX_FILES = 25;
+const PARSE_CONCURRENCY = 3;
+
+function shardOf(term: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < term.length; i++) {
+		hash ^= term.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0) % SHARD_COUNT;
+}
+
+/**
+ * Split document text into passages of roughly PASSAGE_TARGET_CHARS, breaking on blank lines where possible
+ * @param content - Document text
+ * @param pageStartLines - Optional 1-based line on which each page starts
+ * @returns Array of passages with 1-based line ranges and, for paged documents, the page they start on
+ */
+export function splitPassages(content: string, pageStartLines?: number[]): Passage[] {
+	const lines = content.split('\n');
+	const passages: Passage[] = [];
+	let buffer: string[] = [];
+	let startLine = 1;
+	let length = 0;
+
+	const flush = (endLine: number) => {
+		const text = buffer.join('\n').trim();
+		if (text.length > 0) {
+			passages.push({ text, startLine, endLine, page: pageAtLine(startLine, pageStartLines) });
+		}
+		buffer = [];
+		length = 0;
+	};
+
+	lines.forEach((line, index) => {
+		const lineNumber = index + 1;
+		if (buffer.length === 0) {
+			startLine = lineNumber;
+		}
+
+		if (line.trim().length === 0) {
+			if (length >= PASSAGE_TARGET_CHARS) {
+				flush(lineNumber - 1);
+			} else if (buffer.length > 0) {
+				buffer.push(line);
+			}
+			return;
+		}
+
+		if (length + line.length > PASSAGE_MAX_CHARS && buffer.length > 0) {
+			flush(lineNumber - 1);
+			startLine = lineNumber;
+		}
+
+		buffer.push(line);
+		length += line.length + 1;
+	});
+
+	flush(lines.length);
+	return passages;
+}
+
+/**
+ * BM25 inverted index over document passages, stored in a KV namespace
+ */
+export class ContentIndex {
+	constructor(private readonly kv: KVNamespace) {}
+
+	/**
+	 * Get the manifest of indexed files
+	 * @returns Promise<IndexManifest> - Indexed files keyed by file ID
+	 */
+	async getManifest(): Promise<IndexManifest> {
+		const manifest = await this.kv.get<IndexManifest>(MANIFEST_KEY, 'json');
+		if (!manifest || manifest.version !== MANIFEST_VERSION) {
+			return { version: MANIFEST_VERSION, files: {} };
+		}
+		return manifest;
+	}
+
+	/**
+	 * Add or replace documents and drop removed files, writing each touched shard once
+	 * @param documents - Documents to (re)index
+	 * @param removedIds - IDs of files to drop from the index
+	 */
+	async update(documents: IndexDocument[], removedIds: string[] = []): Promise<void> {
+		if (documents.length === 0 && removedIds.length === 0) {
+			return;
+		}
+
+		const manifest = await this.getManifest();
+		const staleIds = new Set([...removedIds, ...documents.map((doc) => doc.fileId)]);
+		const shards = await Promise.all(Array.from({ length: SHARD_COUNT }, (_, shard) => this.getShard(shard)));
+		const dirty = new Set<number>();
+
+		shards.forEach((shard, shardIndex) => {
+			for (const [term, postings] of Object.entries(shard.terms)) {
+				for (const fileId of Object.keys(postings)) {
+					if (staleIds.has(fileId)) {
+						delete postings[fileId];
+						dirty.add(shardIndex);
+					}
+				}
+				if (Object.keys(postings).length === 0) {
+					delete shard.terms[term];
+				}
+			}
+		});
+
+		for (const doc of documents) {
+			doc.passages.forEach((passage, passageIndex) => {
+				const terms = tokenize(passage.text);
+				const frequencies = new Map<string, number>();
+				terms.forEach((term) => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+
+				for (const [term, frequency] of frequencies) {
+					const shardIndex = shardOf(term);
+					const postings = (shards[shardIndex].terms[term] ??= {});
+					(postings[doc.fileId] ??= []).push([passageIndex, frequency, terms.length]);
+					dirty.add(shardIndex);
+				}
+			});
+		}
+
+		for (const fileId of removedIds) {
+			delete manifest.files[fileId];
+		}
+		for (const doc of documents) {
+			manifest.files[doc.fileId] = doc.file;
+		}
+
+		await Promise.all([
+			...[...dirty].map((shardIndex) => this.kv.put(`terms:${shardIndex}`, JSON.stringify(shards[shardIndex]))),
+			...documents.map((doc) => this.kv.put(`passages:${doc.fileId}`, JSON.stringify(doc.passages))),
+			...removedIds.map((fileId) => this.kv.delete(`passages:${fileId}`)),
+		]);
+		await this.kv.put(MANIFEST_KEY, JSON.stringify(manifest));
+	}
+
+	/**
+	 * Rank passages against a query with BM25
+	 * @param query - Free-text query
+	 * @param topK - Number of passages to return
+	 * @param isAllowed - Optional check that the caller may see a file; rejected files are skipped before topK is counted
+	 * @returns Promise<ContentSearchResult[]> - Best-matching passages, highest score first
+	 */
+	async search(query: string, topK = 10, isAllowed?: (fileId: string) => Promise<boolean>): Promise<ContentSearchResult[]> {
+		const terms = [...new Set(tokenize(query))];
+		if (terms.length === 0) {
+			return [];
+		}
+
+		const manifest = await this.getManifest();
+		const files = Object.values(manifest.files);
+		const passageCount = files.reduce((sum, file) => sum + file.passageCount, 0);
+		if (passageCount === 0) {
+			return [];
+		}
+		const averageLength = files.reduce((sum, file) => sum + file.totalLength, 0) / passageCount;
+
+		const shardIndexes = [...new Set(terms.map(shardOf))];
+		const shards = new Map(await Promise.all(shardIndexes.map(async (index) => [index, await this.getShard(index)] as const)));
+		const scores = new Map<string, { fileId: string; passageIndex: number; score: number }>();
+
+		for (const term of terms) {
+			const postings = shards.get(shardOf(term))!.terms[term];
+			if (!postings) {
+				continue;
+			}
+
+			const documentFrequency = Object.values(postings).reduce((sum, entries) => sum + entries.length, 0);
+			const idf = Math.log(1 + (passageCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+			for (const [fileId, entries] of Object.entries(postings)) {
+				if (!manifest.files[fileId]) {
+					continue;
+				}
+				for (const [passageIndex, frequency, length] of entries) {
+					const weight =
+						(idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * length) / (averageLength || 1)));
+					const key = `${fileId}:${passageIndex}`;
+					const entry = scores.get(key) ?? { fileId, passageIndex, score: 0 };
+					entry.score += weight;
+					scores.set(key, entry);
+				}
+			}
+		}
+
+		const ranked = [...scores.values()].sort((a, b) => b.score - a.score);
+		const wanted = Math.max(1, topK);
+		let top = ranked.slice(0, wanted);
+		if (isAllowed) {
+			const allowed = new Map<string, boolean>();
+			top = [];
+			for (const entry of ranked) {
+				if (top.length >= wanted) {
+					break;
+				}
+				if (!allowed.has(entry.fileId)) {
+					allowed.set(entry.fileId, await isAllowed(entry.fileId));
+				}
+				if (allowed.get(entry.fileId)) {
+					top.push(entry);
+				}
+			}
+		}
+		const fileIds = [...new Set(top.map((entry) => entry.fileId))];
+		const passages = new Map(
+			await Promise.all(
+				fileIds.map(async (fileId) => [fileId, (await this.kv.get<Passage[]>(`passages:${fileId}`, 'json')) || []] as const)
+			)
+		);
+
+		return top.map((entry) => {
+			const passage = passages.get(entry.fileId)?.[entry.passageIndex];
+			const file = manifest.files[entry.fileId];
+			return {
+				fileId: entry.fileId,
+				fileName: file.name,
+				mimeType: file.mimeType,
+				score: Math.round(entry.score * 1000) / 1000,
+				passageIndex: entry.passageIndex,
+				startLine: passage?.startLine ?? 0,
+				endLine: passage?.endLine ?? 0,
+				page: passage?.page,
+				text: passage?.text ?? '',
+			};
+		});
+	}
+
+	private async getShard(shard: number): Promise<TermShard> {
+		return (await this.kv.get<TermShard>(`terms:${shard}`, 'json')) || { terms: {} };
+	}
+}
+
+/**
+ * Parse every supported file under a folder into the content index, skipping files whose modifiedTime has not changed
+ * since they were last indexed successfully
+ * @param env - Environment variables, including the CONTENT_INDEX binding
+ * @param folderId - Folder to index recursively
+ * @param options - Maximum number of files to parse in this call, and whether to reindex unchanged files
+ * @returns Promise<IndexFolderResult> - What was indexed, removed, failed or left for the next call
+ */
+export async function indexFolder(
+	env: Env,
+	folderId: string = env.FOLDER_ID,
+	options: IndexFolderOptions = {}
+): Promise<IndexFolderResult> {
+	if (!env.CONTENT_INDEX) {
+		throw new ToolError('INTERNAL', 'CONTENT_INDEX KV binding is not configured');
+	}
+
+	const index = new ContentIndex(env.CONTENT_INDEX);
+	const [manifest, files] = await Promise.all([index.getManifest(), listFilesRecursively(env, folderId)]);
+
+	const supported = files.filter((file) => FileParser.isSupportedFileType(file.mimeType));
+	const seen = new Set(supported.map((file) => file.id));
+	const changed = supported.filter((file) => {
+		const entry = manifest.files[file.id];
+		// Files that failed last time are retried, since the failure may have been a rate limit or a timeout
+		return options.force || !entry || entry.error !== undefined || entry.modifiedTime !== (file.modifiedTime ?? '');
+	});
+	const removedIds = Object.entries(manifest.files)
+		.filter(([fileId, entry]) => entry.rootId === folderId && !seen.has(fileId))
+		.map(([fileId]) => fileId);
+
+	const batch = changed.slice(0, Math.max(1, options.maxFiles ?? DEFAULT_MAX_FILES));
+	// A file indexed from an enclosing folder keeps that folder as its root, so runs over the enclosing folder still drop it once deleted
+	const enclosingFolders = batch.some((file) => manifest.files[file.id] && manifest.files[file.id].rootId !== folderId)
+		? (await getFolderIndex(env)).ancestorsOf(folderId)
+		: [];
+	const rootIdOf = (fileId: string) => {
+		const previous = manifest.files[fileId]?.rootId;
+		return previous !== undefined && enclosingFolders.includes(previous) ? previous : folderId;
+	};
+	const documents = await mapWithConcurrency(batch, PARSE_CONCURRENCY, async (file): Promise<IndexDocument> => {
+		const result = await FileParser.parseFileFromDrive(file.id, env);
+		const passages = result.success
+			? splitPassages(result.data!.content, result.data!.pages ? pageStartLinesFor(result.data!.pages) : undefined)
+			: [];
+
+		return {
+			fileId: file.id,
+			passages,
+			file: {
+				name: file.name,
+				mimeType: file.mimeType,
+				modifiedTime: file.modifiedTime ?? '',
+				rootId: rootIdOf(file.id),
+				passageCount: passages.length,
+				totalLength: passages.reduce((sum, passage) => sum + tokenize(passage.text).length, 0),
+				indexedAt: new Date().toISOString(),
+				error: result.success ? undefined : result.error?.message,
+			},
+		};
+	});
+
+	await index.update(documents, removedIds);
+
+	return {
+		folderId,
+		indexed: documents
+			.filter((doc) => !doc.file.error)
+			.map((doc) => ({ fileId: doc.fileId, name: doc.file.name, passages: doc.passages.length })),
+		failed: documents.filter((doc) => doc.file.error).map((doc) => ({ fileId: doc.fileId, name: doc.file.name, error: doc.file.error! })),
+		removed: removedIds.length,
+		unchanged: supported.length - changed.length,
+		remaining: changed.length - batch.length,
+	};
+}
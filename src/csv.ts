@@ -0,0 +1,382 @@
+export type CsvColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'string' | 'empty';
+
+export interface CsvColumn {
+	name: string;
+	type: CsvColumnType;
+	emptyCount: number;
+}
+
+export interface CsvTable {
+	headers: string[];
+	rows: string[][];
+	delimiter: string;
+}
+
+export interface CsvSummary {
+	headers: string[];
+	rowCount: number;
+	delimiter: string;
+	columns: CsvColumn[];
+	preview: Array<Record<string, string>>;
+}
+
+export type CsvOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'startsWith' | 'in' | 'empty' | 'notEmpty';
+
+export interface CsvCondition {
+	column: string;
+	op?: CsvOperator;
+	value?: string | number | boolean | Array<string | number>;
+}
+
+export type CsvAggregateFunction = 'count' | 'countDistinct' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface CsvAggregate {
+	fn: CsvAggregateFunction;
+	column?: string;
+	as?: string;
+}
+
+export interface CsvQuery {
+	select?: string[];
+	where?: CsvCondition[];
+	groupBy?: string | string[];
+	aggregate?: CsvAggregate[];
+	orderBy?: { column: string; direction?: 'asc' | 'desc' };
+	limit?: number;
+}
+
+export type CsvValue = string | number | boolean | null;
+
+export interface CsvQueryResult {
+	columns: string[];
+	rows: Array<Record<string, CsvValue>>;
+	matchedRows: number;
+	totalRows: number;
+	truncated: boolean;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const NUMBER_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i;
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const DATE_PATTERN = /^\d{4}[-/]\d{1,2}[-/]\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const BOOLEAN_PATTERN = /^(true|false|yes|no)$/i;
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+
+/**
+ * Guess the delimiter of a CSV file from its first line, ignoring quoted text
+ * @param text - CSV text
+ * @returns string - The most frequent candidate delimiter, or a comma
+ */
+export function detectDelimiter(text: string): string {
+	const firstLine = (text.match(/^[^\r\n]*/)?.[0] ?? '').replace(/"[^"]*"/g, '');
+	let best = ',';
+	let bestCount = 0;
+	for (const delimiter of CANDIDATE_DELIMITERS) {
+		const count = firstLine.split(delimiter).length - 1;
+		if (count > bestCount) {
+			best = delimiter;
+			bestCount = count;
+		}
+	}
+	return best;
+}
+
+/**
+ * Split CSV text into rows of fields following RFC 4180: quoted fields may hold delimiters, doubled quotes and line breaks
+ * @param text - CSV text
+ * @param delimiter - Field delimiter, detected from the first line when omitted
+ * @returns Array of rows, each an array of field values
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let inQuotes = false;
+	let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+	const endRow = () => {
+		row.push(field);
+		if (row.length > 1 || row[0] !== '') {
+			rows.push(row);
+		}
+		row = [];
+		field = '';
+	};
+
+	for (; i < text.length; i++) {
+		const char = text[i];
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"' && field.length === 0) {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = '';
+		} else if (char === '\r' || char === '\n') {
+			if (char === '\r' && text[i + 1] === '\n') {
+				i++;
+			}
+			endRow();
+		} else {
+			field += char;
+		}
+	}
+
+	if (field.length > 0 || row.length > 0) {
+		endRow();
+	}
+	return rows;
+}
+
+/**
+ * Parse CSV text into a header row and data rows, naming blank headers and making duplicate ones unique
+ * @param text - CSV text
+ * @returns CsvTable - Headers, data rows padded to the header width and the delimiter used
+ */
+export function toCsvTable(text: string): CsvTable {
+	const delimiter = detectDelimiter(text);
+	const [headerRow = [], ...dataRows] = parseCsv(text, delimiter);
+	// A loop rather than Math.max(...rows), which overflows the call stack on large files
+	const width = dataRows.reduce((max, row) => Math.max(max, row.length), headerRow.length);
+
+	const seen = new Map<string, number>();
+	const headers = Array.from({ length: width }, (_, index) => {
+		const base = (headerRow[index] ?? '').trim() || `column_${index + 1}`;
+		const count = (seen.get(base) ?? 0) + 1;
+		seen.set(base, count);
+		return count > 1 ? `${base}_${count}` : base;
+	});
+
+	const rows = dataRows.map((row) => Array.from({ length: width }, (_, index) => row[index] ?? ''));
+	return { headers, rows, delimiter };
+}
+
+/**
+ * Infer the type of a column from its non-empty values
+ * @param values - Raw values of the column
+ * @returns CsvColumnType - The narrowest type every non-empty value fits
+ */
+export function inferColumnType(values: string[]): CsvColumnType {
+	const present = values.map((value) => value.trim()).filter((value) => value.length > 0);
+	if (present.length === 0) {
+		return 'empty';
+	}
+	if (present.every((value) => INTEGER_PATTERN.test(value))) {
+		return 'integer';
+	}
+	if (present.every((value) => NUMBER_PATTERN.test(value))) {
+		return 'number';
+	}
+	if (present.every((value) => BOOLEAN_PATTERN.test(value))) {
+		return 'boolean';
+	}
+	if (present.every((value) => DATE_PATTERN.test(value) && !isNaN(Date.parse(value.replace(/\//g, '-'))))) {
+		return 'date';
+	}
+	return 'string';
+}
+
+/**
+ * Summarise a CSV table for a parse result
+ * @param table - Table from toCsvTable
+ * @param previewRows - Number of data rows to include as a preview
+ * @returns CsvSummary - Headers, row count, inferred column types and preview rows keyed by header
+ */
+export function describeCsvTable(table: CsvTable, previewRows = 5): CsvSummary {
+	return {
+		headers: table.headers,
+		rowCount: table.rows.length,
+		delimiter: table.delimiter,
+		columns: table.headers.map((name, index) => {
+			const values = table.rows.map((row) => row[index]);
+			return {
+				name,
+				type: inferColumnType(values),
+				emptyCount: values.filter((value) => value.trim().length === 0).length,
+			};
+		}),
+		preview: table.rows.slice(0, previewRows).map((row) => Object.fromEntries(table.headers.map((header, index) => [header, row[index]]))),
+	};
+}
+
+function toNumber(value: unknown): number | undefined {
+	if (typeof value === 'number') {
+		return Number.isFinite(value) ? value : undefined;
+	}
+	const text = String(value ?? '').trim();
+	return NUMBER_PATTERN.test(text) ? Number(text) : undefined;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+	const left = toNumber(a);
+	const right = toNumber(b);
+	if (left !== undefined && right !== undefined) {
+		return left - right;
+	}
+	const leftText = String(a ?? '');
+	const rightText = String(b ?? '');
+	return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+}
+
+function resolveColumn(table: CsvTable, column: string): number {
+	let index = table.headers.indexOf(column);
+	if (index === -1) {
+		index = table.headers.findIndex((header) => header.toLowerCase() === column.trim().toLowerCase());
+	}
+	if (index === -1) {
+		throw new Error(`Unknown column: ${column}. Columns: ${table.headers.join(', ')}`);
+	}
+	return index;
+}
+
+function matches(value: string, condition: CsvCondition): boolean {
+	const op = condition.op ?? '=';
+	const expected = condition.value;
+	switch (op) {
+		case 'empty':
+			return value.trim().length === 0;
+		case 'notEmpty':
+			return value.trim().length > 0;
+		case 'in':
+			return (Array.isArray(expected) ? expected : [expected]).some((item) => compareValues(value, item) === 0);
+		case 'contains':
+			return value.toLowerCase().includes(String(expected ?? '').toLowerCase());
+		case 'startsWith':
+			return value.toLowerCase().startsWith(String(expected ?? '').toLowerCase());
+		case '=':
+			return compareValues(value, typeof expected === 'boolean' ? String(expected) : expected) === 0;
+		case '!=':
+			return compareValues(value, typeof expected === 'boolean' ? String(expected) : expected) !== 0;
+		case '>':
+			return value.trim().length > 0 && compareValues(value, expected) > 0;
+		case '>=':
+			return value.trim().length > 0 && compareValues(value, expected) >= 0;
+		case '<':
+			return value.trim().length > 0 && compareValues(value, expected) < 0;
+		case '<=':
+			return value.trim().length > 0 && compareValues(value, expected) <= 0;
+		default:
+			throw new Error(`Unknown operator: ${op}`);
+	}
+}
+
+function aggregateName(aggregate: CsvAggregate): string {
+	return aggregate.as || (aggregate.column ? `${aggregate.fn}_${aggregate.column}` : aggregate.fn);
+}
+
+function computeAggregate(rows: string[][], aggregate: CsvAggregate, columnIndex: number | undefined): CsvValue {
+	if (aggregate.fn === 'count' && columnIndex === undefined) {
+		return rows.length;
+	}
+	if (columnIndex === undefined) {
+		throw new Error(`Aggregate ${aggregate.fn} needs a column`);
+	}
+
+	const values = rows.map((row) => row[columnIndex]).filter((value) => value.trim().length > 0);
+	switch (aggregate.fn) {
+		case 'count':
+			return values.length;
+		case 'countDistinct':
+			return new Set(values).size;
+		case 'min':
+		case 'max': {
+			if (values.length === 0) {
+				return null;
+			}
+			const sorted = [...values].sort(compareValues);
+			const value = aggregate.fn === 'min' ? sorted[0] : sorted[sorted.length - 1];
+			return toNumber(value) ?? value;
+		}
+		case 'sum':
+		case 'avg': {
+			const numbers = values.map(toNumber).filter((value): value is number => value !== undefined);
+			if (numbers.length === 0) {
+				return null;
+			}
+			const sum = numbers.reduce((total, value) => total + value, 0);
+			return aggregate.fn === 'sum' ? sum : sum / numbers.length;
+		}
+		default:
+			throw new Error(`Unknown aggregate function: ${aggregate.fn}`);
+	}
+}
+
+/**
+ * Filter, group, aggregate and sort the rows of a CSV table
+ * @param table - Table from toCsvTable
+ * @param query - Columns to select, conditions (all must match), grouping, aggregates, ordering and row limit
+ * @returns CsvQueryResult - Result columns and rows, with the number of matching and total rows
+ */
+export function queryCsvTable(table: CsvTable, query: CsvQuery = {}): CsvQueryResult {
+	const conditions = (query.where || []).map((condition) => ({ condition, index: resolveColumn(table, condition.column) }));
+	const matched = table.rows.filter((row) => conditions.every(({ condition, index }) => matches(row[index], condition)));
+
+	const groupBy = typeof query.groupBy === 'string' ? [query.groupBy] : query.groupBy || [];
+	const aggregates = query.aggregate || [];
+	let columns: string[];
+	let rows: Array<Record<string, CsvValue>>;
+
+	if (groupBy.length > 0 || aggregates.length > 0) {
+		if (query.select?.length) {
+			throw new Error(
+				'select cannot be combined with groupBy or aggregate. Grouped results have the groupBy columns and one column per aggregate'
+			);
+		}
+		const groupIndexes = groupBy.map((column) => resolveColumn(table, column));
+		const aggregateIndexes = aggregates.map((aggregate) => (aggregate.column ? resolveColumn(table, aggregate.column) : undefined));
+		const groups = new Map<string, string[][]>();
+		for (const row of matched) {
+			const key = JSON.stringify(groupIndexes.map((index) => row[index]));
+			const group = groups.get(key);
+			if (group) {
+				group.push(row);
+			} else {
+				groups.set(key, [row]);
+			}
+		}
+		if (groups.size === 0 && groupIndexes.length === 0) {
+			groups.set('[]', []);
+		}
+
+		columns = [...groupIndexes.map((index) => table.headers[index]), ...aggregates.map(aggregateName)];
+		rows = [...groups.values()].map((groupRows) => {
+			const result: Record<string, CsvValue> = {};
+			groupIndexes.forEach((index) => (result[table.headers[index]] = groupRows[0][index]));
+			aggregates.forEach(
+				(aggregate, i) => (result[aggregateName(aggregate)] = computeAggregate(groupRows, aggregate, aggregateIndexes[i]))
+			);
+			return result;
+		});
+	} else {
+		const selected = (query.select?.length ? query.select : table.headers).map((column) => resolveColumn(table, column));
+		columns = selected.map((index) => table.headers[index]);
+		rows = matched.map((row) => Object.fromEntries(selected.map((index) => [table.headers[index], row[index]])));
+	}
+
+	if (query.orderBy) {
+		const { column, direction } = query.orderBy;
+		const key = columns.find((name) => name === column) ?? columns.find((name) => name.toLowerCase() === column.toLowerCase());
+		if (!key) {
+			throw new Error(`Cannot order by ${column}. Result columns: ${columns.join(', ')}`);
+		}
+		const sign = direction === 'desc' ? -1 : 1;
+		rows.sort((a, b) => sign * compareValues(a[key], b[key]));
+	}
+
+	const limit = Math.min(Math.max(1, Math.floor(query.limit ?? DEFAULT_QUERY_LIMIT)), MAX_QUERY_LIMIT);
+	return {
+		columns,
+		rows: rows.slice(0, limit),
+		matchedRows: matched.length,
+		totalRows: table.rows.length,
+		truncated: rows.length > limit,
+	};
+}
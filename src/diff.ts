@@ -0,0 +1,245 @@
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+	type: DiffOpType;
+	text: string;
+	/** 1-based line number in the old text; undefined for inserted lines */
+	oldLine?: number;
+	/** 1-based line number in the new text; undefined for deleted lines */
+	newLine?: number;
+}
+
+export interface DiffStats {
+	added: number;
+	removed: number;
+	unchanged: number;
+}
+
+export interface UnifiedDiffOptions {
+	/** Unchanged lines shown around each change (default 3) */
+	context?: number;
+	oldLabel?: string;
+	newLabel?: string;
+	/** Maximum number of diff lines returned (default 1000) */
+	maxLines?: number;
+	/** Maximum length of the diff text in characters; no limit by default */
+	maxChars?: number;
+}
+
+export interface UnifiedDiff {
+	diff: string;
+	hunks: number;
+	/** True when the diff was cut at maxLines or maxChars */
+	truncated: boolean;
+}
+
+export const DEFAULT_CONTEXT_LINES = 3;
+export const DEFAULT_MAX_DIFF_LINES = 1000;
+/** Beyond this many differing lines the middle of the texts is reported as replaced wholesale, keeping memory bounded */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Split text into lines, treating \r\n and \r as line breaks. A trailing line break does not add an empty line.
+ */
+export function splitLines(text: string): string[] {
+	if (text.length === 0) {
+		return [];
+	}
+	const lines = text.replace(/\r\n?/g, '\n').split('\n');
+	if (lines[lines.length - 1] === '') {
+		lines.pop();
+	}
+	return lines;
+}
+
+/**
+ * Myers' shortest edit script from a to b, as [type, aIndex, bIndex] steps,
+ * or undefined when the texts differ by more than MAX_EDIT_DISTANCE lines
+ */
+function myers(a: string[], b: string[]): Array<[DiffOpType, number, number]> | undefined {
+	const n = a.length;
+	const m = b.length;
+	const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+	const offset = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	const trace: Int32Array[] = [];
+
+	for (let d = 0; d <= max; d++) {
+		trace.push(v.slice(offset - d - 1, offset + d + 2));
+		for (let k = -d; k <= d; k += 2) {
+			let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				return backtrack(trace, a.length, b.length, d);
+			}
+		}
+	}
+	return undefined;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number, distance: number): Array<[DiffOpType, number, number]> {
+	const steps: Array<[DiffOpType, number, number]> = [];
+	let x = n;
+	let y = m;
+
+	for (let d = distance; d > 0; d--) {
+		// trace[d] holds v for k in [-d-1, d+1] as it was before step d
+		const v = trace[d];
+		const at = (k: number) => v[k + d + 1];
+		const k = x - y;
+		const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+		const prevX = at(prevK);
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			steps.push(['equal', --x, --y]);
+		}
+		if (prevK === k + 1) {
+			steps.push(['insert', x, --y]);
+		} else {
+			steps.push(['delete', --x, y]);
+		}
+	}
+	while (x > 0 && y > 0) {
+		steps.push(['equal', --x, --y]);
+	}
+	return steps.reverse();
+}
+
+/**
+ * Compare two lists of lines
+ * @param oldLines - Lines of the old text
+ * @param newLines - Lines of the new text
+ * @returns DiffOp[] - Every line of both texts, in order, marked equal, deleted or inserted
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+	let prefix = 0;
+	while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix &&
+		suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+	const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+	const steps: Array<[DiffOpType, number, number]> = myers(oldMiddle, newMiddle) ?? [
+		...oldMiddle.map((_, index): [DiffOpType, number, number] => ['delete', index, 0]),
+		...newMiddle.map((_, index): [DiffOpType, number, number] => ['insert', 0, index]),
+	];
+
+	const ops: DiffOp[] = [];
+	for (let i = 0; i < prefix; i++) {
+		ops.push({ type: 'equal', text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+	}
+	for (const [type, oldIndex, newIndex] of steps) {
+		ops.push({
+			type,
+			text: type === 'insert' ? newMiddle[newIndex] : oldMiddle[oldIndex],
+			oldLine: type === 'insert' ? undefined : prefix + oldIndex + 1,
+			newLine: type === 'delete' ? undefined : prefix + newIndex + 1,
+		});
+	}
+	for (let i = suffix; i > 0; i--) {
+		ops.push({ type: 'equal', text: oldLines[oldLines.length - i], oldLine: oldLines.length - i + 1, newLine: newLines.length - i + 1 });
+	}
+	return ops;
+}
+
+/**
+ * Count added, removed and unchanged lines
+ */
+export function diffStats(ops: DiffOp[]): DiffStats {
+	const stats: DiffStats = { added: 0, removed: 0, unchanged: 0 };
+	for (const op of ops) {
+		if (op.type === 'insert') {
+			stats.added++;
+		} else if (op.type === 'delete') {
+			stats.removed++;
+		} else {
+			stats.unchanged++;
+		}
+	}
+	return stats;
+}
+
+/**
+ * Format a line diff as a unified diff ("---"/"+++" headers and "@@ -a,b +c,d @@" hunks)
+ * @param ops - Result of diffLines
+ * @param options - Context lines, file labels and a maximum number of output lines
+ * @returns UnifiedDiff - Diff text, number of hunks and whether it was cut short. Identical texts give an empty diff.
+ */
+export function unifiedDiff(ops: DiffOp[], options: UnifiedDiffOptions = {}): UnifiedDiff {
+	const context = Math.max(0, options.context ?? DEFAULT_CONTEXT_LINES);
+	const maxLines = Math.max(1, options.maxLines ?? DEFAULT_MAX_DIFF_LINES);
+	const maxChars = options.maxChars ?? Infinity;
+
+	// Group changes whose context would touch into one hunk
+	const ranges: Array<[number, number]> = [];
+	ops.forEach((op, index) => {
+		if (op.type === 'equal') {
+			return;
+		}
+		const start = Math.max(0, index - context);
+		const end = Math.min(ops.length, index + context + 1);
+		const last = ranges[ranges.length - 1];
+		if (last && start <= last[1]) {
+			last[1] = end;
+		} else {
+			ranges.push([start, end]);
+		}
+	});
+
+	if (ranges.length === 0) {
+		return { diff: '', hunks: 0, truncated: false };
+	}
+
+	const lines = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`];
+	let chars = lines.join('\n').length;
+	let truncated = false;
+	for (const [start, end] of ranges) {
+		const hunk = ops.slice(start, end);
+		const hunkLines = [
+			hunkHeader(ops, start, hunk),
+			...hunk.map((op) => `${op.type === 'insert' ? '+' : op.type === 'delete' ? '-' : ' '}${op.text}`),
+		];
+		const hunkChars = hunkLines.reduce((total, line) => total + line.length + 1, 0);
+		if (lines.length + hunkLines.length > maxLines || chars + hunkChars > maxChars) {
+			truncated = true;
+			break;
+		}
+		lines.push(...hunkLines);
+		chars += hunkChars;
+	}
+
+	return { diff: lines.join('\n'), hunks: ranges.length, truncated };
+}
+
+function hunkHeader(ops: DiffOp[], start: number, hunk: DiffOp[]): string {
+	const oldCount = hunk.filter((op) => op.type !== 'insert').length;
+	const newCount = hunk.filter((op) => op.type !== 'delete').length;
+	// Empty sides point at the line before, as in GNU diff
+	const oldStart = hunk.find((op) => op.oldLine !== undefined)?.oldLine ?? linesBefore(ops, start, 'oldLine');
+	const newStart = hunk.find((op) => op.newLine !== undefined)?.newLine ?? linesBefore(ops, start, 'newLine');
+	return `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`;
+}
+
+function linesBefore(ops: DiffOp[], start: number, side: 'oldLine' | 'newLine'): number {
+	for (let i = start - 1; i >= 0; i--) {
+		const line = ops[i][side];
+		if (line !== undefined) {
+			return line;
+		}
+	}
+	return 0;
+}
@@ -0,0 +1,223 @@
+import { codeForStatus, ToolError } from './errors';
+
+interface Env {
+	DRIVE_MAX_RETRIES?: string;
+	DRIVE_RETRY_BASE_MS?: string;
+	DRIVE_TIMEOUT_MS?: string;
+	DRIVE_MAX_DOWNLOAD_BYTES?: string;
+	/** Epoch milliseconds after which no more Drive requests are started for the current tool call, see withDeadline */
+	DRIVE_DEADLINE?: number;
+}
+
+export interface RetryPolicy {
+	/** Retries after the first attempt */
+	maxRetries: number;
+	/** Backoff before the first retry; doubles on each retry */
+	baseDelayMs: number;
+	maxDelayMs: number;
+	/** Timeout for a single request */
+	timeoutMs: number;
+}
+
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 32 * 1000;
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+export const DEFAULT_TOOL_DEADLINE_MS = 120 * 1000;
+export const DEFAULT_MAX_DOWNLOAD_BYTES = 25 * 1024 * 1024;
+
+/** Methods that are safe to send again after a timeout or a server error */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'PATCH', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+function numberSetting(value: string | undefined, fallback: number, min: number): number {
+	const parsed = Number(value);
+	return value !== undefined && Number.isFinite(parsed) ? Math.max(Math.floor(parsed), min) : fallback;
+}
+
+/**
+ * Read the retry settings from the environment
+ * @param env - Environment with the optional DRIVE_MAX_RETRIES, DRIVE_RETRY_BASE_MS and DRIVE_TIMEOUT_MS variables
+ * @returns RetryPolicy
+ */
+export function retryPolicyFor(env: Env): RetryPolicy {
+	return {
+		maxRetries: numberSetting(env.DRIVE_MAX_RETRIES, DEFAULT_MAX_RETRIES, 0),
+		baseDelayMs: numberSetting(env.DRIVE_RETRY_BASE_MS, DEFAULT_BASE_DELAY_MS, 0),
+		maxDelayMs: MAX_DELAY_MS,
+		timeoutMs: numberSetting(env.DRIVE_TIMEOUT_MS, DEFAULT_TIMEOUT_MS, 1),
+	};
+}
+
+/**
+ * Read the largest file body a tool may download, from DRIVE_MAX_DOWNLOAD_BYTES
+ * @param env - Environment with the optional DRIVE_MAX_DOWNLOAD_BYTES variable
+ * @returns number - Limit in bytes (default 25 MiB)
+ */
+export function maxDownloadBytes(env: Env): number {
+	return numberSetting(env.DRIVE_MAX_DOWNLOAD_BYTES, DEFAULT_MAX_DOWNLOAD_BYTES, 1);
+}
+
+/**
+ * Read a response body, stopping once maxBytes have arrived so an unexpectedly large file cannot exhaust Worker memory
+ * @param response - Response whose body to read
+ * @param maxBytes - Most bytes to keep
+ * @param skip - Leading bytes to discard as they stream in, without holding them in memory
+ * @returns The maxBytes bytes of the body after skip, and whether the body went on beyond them
+ */
+export async function readLimitedBody(response: Response, maxBytes: number, skip = 0): Promise<{ data: ArrayBuffer; truncated: boolean }> {
+	if (!response.body) {
+		return { data: new ArrayBuffer(0), truncated: false };
+	}
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let length = 0;
+	let skipped = 0;
+	let truncated = false;
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		let chunk = value;
+		if (skipped < skip) {
+			const dropped = Math.min(skip - skipped, chunk.byteLength);
+			skipped += dropped;
+			chunk = chunk.subarray(dropped);
+			if (chunk.byteLength === 0) {
+				continue;
+			}
+		}
+		if (length + chunk.byteLength > maxBytes) {
+			chunks.push(chunk.subarray(0, maxBytes - length));
+			length = maxBytes;
+			truncated = true;
+			await reader.cancel();
+			break;
+		}
+		chunks.push(chunk);
+		length += chunk.byteLength;
+	}
+
+	const data = new Uint8Array(length);
+	let offset = 0;
+	for (const chunk of chunks) {
+		data.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return { data: data.buffer, truncated };
+}
+
+/**
+ * Give a tool call a total time budget for its Drive requests
+ * @param env - Environment of the tool call
+ * @param ms - Budget in milliseconds
+ * @returns A copy of env carrying the deadline
+ */
+export function withDeadline<E extends object>(env: E, ms: number = DEFAULT_TOOL_DEADLINE_MS): E & { DRIVE_DEADLINE: number } {
+	return { ...env, DRIVE_DEADLINE: Date.now() + ms };
+}
+
+/**
+ * Exponential backoff with full jitter, as recommended for Drive's rate limit errors
+ * @param retry - Zero-based retry number
+ * @param policy - Retry settings
+ * @param random - Source of jitter in [0, 1)
+ * @returns number - Delay in milliseconds
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+	return Math.floor(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry));
+}
+
+/**
+ * Read a Retry-After header, given either as seconds or as an HTTP date
+ * @returns number | undefined - Delay in milliseconds, or undefined when the header is missing or invalid
+ */
+export function retryAfterMs(response: Response, now: number = Date.now()): number | undefined {
+	const value = response.headers.get('Retry-After');
+	if (!value) {
+		return undefined;
+	}
+	if (/^\d+$/.test(value.trim())) {
+		return Number(value) * 1000;
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Whether a failed response is worth retrying. Drive reports per-user rate limits as 403 with a
+ * rateLimitExceeded or userRateLimitExceeded reason, and those are retried like 429.
+ */
+async function shouldRetry(response: Response, idempotent: boolean): Promise<boolean> {
+	if (response.status === 403) {
+		const body = await response
+			.clone()
+			.text()
+			.catch(() => '');
+		return codeForStatus(403, body) === 'RATE_LIMITED';
+	}
+	if (response.status === 429) {
+		return true;
+	}
+	return idempotent && RETRYABLE_STATUSES.has(response.status);
+}
+
+function isTimeout(error: unknown): boolean {
+	return error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Fetch a Drive API URL with per-request timeouts, retrying rate limits, server errors and timeouts with backoff.
+ * Requests that are not idempotent (POST) are only retried on rate limits, which Drive rejects before doing any work.
+ * @param env - Environment with the retry settings and the optional tool deadline
+ * @param url - Drive API URL
+ * @param init - Request options; the body must be reusable (a string or a Blob)
+ * @returns Promise<Response> - The first successful response, or the last failed one once retries or the deadline run out
+ * @throws ToolError with code TIMEOUT when the last attempt timed out
+ */
+export async function driveFetch(env: Env, url: string, init: RequestInit = {}): Promise<Response> {
+	const policy = retryPolicyFor(env);
+	const idempotent = IDEMPOTENT_METHODS.has((init.method ?? 'GET').toUpperCase());
+	const deadline = env.DRIVE_DEADLINE ?? Infinity;
+
+	for (let retry = 0; ; retry++) {
+		const remaining = deadline - Date.now();
+		if (remaining <= 0) {
+			throw new ToolError('TIMEOUT', `Deadline exceeded before Drive request: ${new URL(url).pathname}`, undefined, true);
+		}
+		const timeoutMs = Math.min(policy.timeoutMs, remaining);
+
+		let response: Response | undefined;
+		try {
+			response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+		} catch (error) {
+			if (!isTimeout(error) || !idempotent) {
+				throw isTimeout(error) ? timeoutError(url, timeoutMs) : error;
+			}
+		}
+
+		if (response && (response.ok || !(await shouldRetry(response, idempotent)))) {
+			return response;
+		}
+
+		const delay = (response && retryAfterMs(response)) ?? backoffDelay(retry, policy);
+		if (retry >= policy.maxRetries || Date.now() + delay >= deadline) {
+			if (response) {
+				return response;
+			}
+			throw timeoutError(url, timeoutMs);
+		}
+		console.log('Retrying Drive request in', delay, 'ms:', response ? response.status : 'timeout', new URL(url).pathname);
+		await response?.body?.cancel();
+		await sleep(delay);
+	}
+}
+
+function timeoutError(url: string, timeoutMs: number): ToolError {
+	return new ToolError('TIMEOUT', `Drive request timed out after ${timeoutMs} ms: ${new URL(url).pathname}`, undefined, true);
+}
@@ -0,0 +1,43 @@
+export type SandboxReason = 'INVALID_ID' | 'OUTSIDE_ROOT' | 'NOT_FOUND';
+
+/** Drive file and folder IDs are URL-safe base64: letters, digits, "-" and "_" */
+const DRIVE_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Raised when a tool is given an ID that is malformed, does not exist or lies outside the configured root folder
+ */
+export class SandboxError extends Error {
+	constructor(
+		readonly reason: SandboxReason,
+		readonly itemId: string,
+		message: string
+	) {
+		super(message);
+		this.name = 'SandboxError';
+	}
+}
+
+/**
+ * Whether a value has the shape of a Drive ID. Names such as "notes.pdf" or "Week 5" do not.
+ */
+export function isDriveId(value: string): boolean {
+	return DRIVE_ID_PATTERN.test(value);
+}
+
+/**
+ * Check that a value looks like a Drive ID before it is put into a URL or a files.list query
+ * @param id - Value to check
+ * @param label - What the ID is for, used in the error message
+ * @returns string - The ID, unchanged
+ * @throws SandboxError with reason INVALID_ID
+ */
+export function assertValidDriveId(id: unknown, label = 'ID'): string {
+	if (typeof id !== 'string' || !DRIVE_ID_PATTERN.test(id)) {
+		throw new SandboxError(
+			'INVALID_ID',
+			String(id),
+			`Invalid ${label}: ${JSON.stringify(id)}. Drive IDs contain only letters, digits, "-" and "_"`
+		);
+	}
+	return id;
+}
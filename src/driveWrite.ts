@@ -0,0 +1,384 @@
+import { authorizedFetch, DRIVE_SCOPE } from './auth';
+import { DriveFileResource, FOLDER_MIME_TYPE } from './gdrive';
+import { getFolderIndex, clearFolderIndexCache, joinPath, FolderIndex } from './folderIndex';
+import { httpError, ToolError } from './errors';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+	ENABLE_WRITE_TOOLS?: string;
+}
+
+export interface WriteOptions {
+	/** Check the request and report what would happen without changing Drive */
+	dryRun?: boolean;
+}
+
+export type WriteAction = 'createFolder' | 'uploadTextFile' | 'updateFileContent' | 'renameItem' | 'moveItem' | 'trashItem';
+
+export interface WrittenItem {
+	/** Undefined for items a dry run would create */
+	id?: string;
+	name: string;
+	mimeType: string;
+	isFolder: boolean;
+	/** Root-relative path after the change */
+	path: string;
+	modifiedTime?: string;
+	size?: number;
+}
+
+export interface WriteResult {
+	action: WriteAction;
+	dryRun: boolean;
+	item: WrittenItem;
+	/** Root-relative path before a rename, move or trash */
+	previousPath?: string;
+}
+
+const DRIVE_FILES_URL = 'https://www.googleapis.com/drive/v3/files';
+const DRIVE_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3/files';
+const ITEM_FIELDS = 'id,name,mimeType,parents,trashed,modifiedTime,size';
+/** Largest body Drive accepts in a single multipart or media upload */
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+const MAX_NAME_LENGTH = 255;
+
+/**
+ * Check whether the write tools are turned on with ENABLE_WRITE_TOOLS
+ * @param env - Environment variables
+ * @returns boolean indicating if write tools may change Drive
+ */
+export function writeToolsEnabled(env: Env): boolean {
+	return /^(true|1|yes)$/i.test((env.ENABLE_WRITE_TOOLS ?? '').trim());
+}
+
+function assertWriteToolsEnabled(env: Env): void {
+	if (!writeToolsEnabled(env)) {
+		throw new ToolError('PERMISSION_DENIED', 'Write tools are disabled. Set ENABLE_WRITE_TOOLS=true to allow changes to Drive');
+	}
+}
+
+function validateName(name: string): string {
+	const trimmed = (name ?? '').trim();
+	if (trimmed.length === 0) {
+		throw new ToolError('INVALID_ARGUMENT', 'Name must not be empty');
+	}
+	if (trimmed.length > MAX_NAME_LENGTH) {
+		throw new ToolError('INVALID_ARGUMENT', `Name is longer than ${MAX_NAME_LENGTH} characters`);
+	}
+	if (trimmed.includes('/')) {
+		throw new ToolError('INVALID_ARGUMENT', `Name must not contain "/": ${trimmed}`);
+	}
+	return trimmed;
+}
+
+function validateTextContent(content: string): void {
+	if (typeof content !== 'string') {
+		throw new ToolError('INVALID_ARGUMENT', 'Content must be a string');
+	}
+	const size = new TextEncoder().encode(content).byteLength;
+	if (size > MAX_UPLOAD_BYTES) {
+		throw new ToolError('TOO_LARGE', `Content is ${size} bytes; the limit is ${MAX_UPLOAD_BYTES} bytes`);
+	}
+}
+
+function isTextMimeType(mimeType: string): boolean {
+	return mimeType.startsWith('text/') || mimeType === 'application/json';
+}
+
+function folderPathOf(folderIndex: FolderIndex, folderId: string): string {
+	const path = folderIndex.pathOf(folderId);
+	if (path === undefined) {
+		throw new ToolError('PERMISSION_DENIED', `Folder is not inside the root folder: ${folderId}`);
+	}
+	return path;
+}
+
+async function getItem(env: Env, itemId: string): Promise<DriveFileResource & { trashed?: boolean }> {
+	const response = await authorizedFetch(
+		env,
+		`${DRIVE_FILES_URL}/${encodeURIComponent(itemId)}?fields=${ITEM_FIELDS}&supportsAllDrives=true`
+	);
+	if (response.status === 404) {
+		throw new ToolError('NOT_FOUND', `Item not found: ${itemId}`, 404);
+	}
+	if (!response.ok) {
+		throw await httpError(response, 'Failed to get item');
+	}
+	return (await response.json()) as DriveFileResource & { trashed?: boolean };
+}
+
+/**
+ * Load an item and check that it sits under the root and may be changed
+ * @returns The item and its root-relative path
+ */
+async function getItemInRoot(
+	env: Env,
+	folderIndex: FolderIndex,
+	itemId: string
+): Promise<{ file: DriveFileResource & { trashed?: boolean }; path: string }> {
+	if (itemId === env.FOLDER_ID) {
+		throw new ToolError('PERMISSION_DENIED', 'The root folder itself cannot be changed');
+	}
+
+	const file = await getItem(env, itemId);
+	const path = folderIndex.pathFor(file.name ?? '', file.parents);
+	if (path === undefined) {
+		throw new ToolError('PERMISSION_DENIED', `Item is not inside the root folder: ${itemId}`);
+	}
+	if (file.trashed) {
+		throw new ToolError('INVALID_ARGUMENT', `Item is in the trash: ${path}`);
+	}
+	return { file, path };
+}
+
+async function driveWrite(env: Env, url: string, init: RequestInit, errorMessage: string): Promise<DriveFileResource> {
+	const response = await authorizedFetch(env, url, init, DRIVE_SCOPE);
+	if (!response.ok) {
+		throw await httpError(response, errorMessage);
+	}
+	return (await response.json()) as DriveFileResource;
+}
+
+function toWrittenItem(file: DriveFileResource, path: string): WrittenItem {
+	return {
+		id: file.id,
+		name: file.name ?? '',
+		mimeType: file.mimeType ?? '',
+		isFolder: file.mimeType === FOLDER_MIME_TYPE,
+		path,
+		modifiedTime: file.modifiedTime,
+		size: file.size ? parseInt(file.size) : undefined,
+	};
+}
+
+function multipartBody(metadata: object, content: string, mimeType: string, boundary: string): string {
+	return [
+		`--${boundary}`,
+		'Content-Type: application/json; charset=UTF-8',
+		'',
+		JSON.stringify(metadata),
+		`--${boundary}`,
+		`Content-Type: ${mimeType}; charset=UTF-8`,
+		'',
+		content,
+		`--${boundary}--`,
+	].join('\r\n');
+}
+
+/**
+ * Create a folder under the root or one of its subfolders
+ * @param env - Environment variables for Google API
+ * @param name - Name of the new folder
+ * @param parentId - Folder to create it in, defaults to the root
+ * @param options - Dry-run flag
+ * @returns Promise<WriteResult> - The created folder
+ */
+export async function createFolder(
+	env: Env,
+	name: string,
+	parentId: string = env.FOLDER_ID,
+	options: WriteOptions = {}
+): Promise<WriteResult> {
+	assertWriteToolsEnabled(env);
+	const folderName = validateName(name);
+	const path = joinPath(folderPathOf(await getFolderIndex(env), parentId), folderName);
+
+	if (options.dryRun) {
+		return { action: 'createFolder', dryRun: true, item: { name: folderName, mimeType: FOLDER_MIME_TYPE, isFolder: true, path } };
+	}
+
+	const file = await driveWrite(
+		env,
+		`${DRIVE_FILES_URL}?fields=${ITEM_FIELDS}&supportsAllDrives=true`,
+		{
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ name: folderName, mimeType: FOLDER_MIME_TYPE, parents: [parentId] }),
+		},
+		'Failed to create folder'
+	);
+	clearFolderIndexCache();
+	return { action: 'createFolder', dryRun: false, item: toWrittenItem(file, path) };
+}
+
+/**
+ * Upload a new text file (plain text, Markdown, CSV, JSON, ...) under the root
+ * @param env - Environment variables for Google API
+ * @param name - File name
+ * @param content - Text content, at most 5 MB
+ * @param parentId - Folder to upload into, defaults to the root
+ * @param mimeType - text/* type or application/json, defaults to text/plain
+ * @param options - Dry-run flag
+ * @returns Promise<WriteResult> - The uploaded file
+ */
+export async function uploadTextFile(
+	env: Env,
+	name: string,
+	content: string,
+	parentId: string = env.FOLDER_ID,
+	mimeType: string = 'text/plain',
+	options: WriteOptions = {}
+): Promise<WriteResult> {
+	assertWriteToolsEnabled(env);
+	const fileName = validateName(name);
+	if (!isTextMimeType(mimeType)) {
+		throw new ToolError('UNSUPPORTED_TYPE', `Not a text MIME type: ${mimeType}. Use text/* or application/json`);
+	}
+	validateTextContent(content);
+	const path = joinPath(folderPathOf(await getFolderIndex(env), parentId), fileName);
+
+	if (options.dryRun) {
+		return {
+			action: 'uploadTextFile',
+			dryRun: true,
+			item: { name: fileName, mimeType, isFolder: false, path, size: new TextEncoder().encode(content).byteLength },
+		};
+	}
+
+	const boundary = `ise-mcp-${crypto.randomUUID()}`;
+	const file = await driveWrite(
+		env,
+		`${DRIVE_UPLOAD_URL}?uploadType=multipart&fields=${ITEM_FIELDS}&supportsAllDrives=true`,
+		{
+			method: 'POST',
+			headers: { 'Content-Type': `multipart/related; boundary=${boundary}` },
+			body: multipartBody({ name: fileName, mimeType, parents: [parentId] }, content, mimeType, boundary),
+		},
+		'Failed to upload file'
+	);
+	return { action: 'uploadTextFile', dryRun: false, item: toWrittenItem(file, path) };
+}
+
+/**
+ * Replace the content of an existing text file, keeping its name, location and MIME type
+ * @param env - Environment variables for Google API
+ * @param fileId - File to update
+ * @param content - New text content, at most 5 MB
+ * @param options - Dry-run flag
+ * @returns Promise<WriteResult> - The updated file
+ */
+export async function updateFileContent(env: Env, fileId: string, content: string, options: WriteOptions = {}): Promise<WriteResult> {
+	assertWriteToolsEnabled(env);
+	validateTextContent(content);
+	const { file, path } = await getItemInRoot(env, await getFolderIndex(env), fileId);
+	const mimeType = file.mimeType ?? '';
+	if (!isTextMimeType(mimeType)) {
+		throw new ToolError('UNSUPPORTED_TYPE', `Only text files can be updated; ${path} is ${mimeType}`);
+	}
+
+	if (options.dryRun) {
+		return {
+			action: 'updateFileContent',
+			dryRun: true,
+			item: { ...toWrittenItem(file, path), size: new TextEncoder().encode(content).byteLength },
+		};
+	}
+
+	const updated = await driveWrite(
+		env,
+		`${DRIVE_UPLOAD_URL}/${encodeURIComponent(fileId)}?uploadType=media&fields=${ITEM_FIELDS}&supportsAllDrives=true`,
+		{ method: 'PATCH', headers: { 'Content-Type': `${mimeType}; charset=UTF-8` }, body: content },
+		'Failed to update file'
+	);
+	return { action: 'updateFileContent', dryRun: false, item: toWrittenItem(updated, path) };
+}
+
+/**
+ * Rename a file or folder under the root
+ * @param env - Environment variables for Google API
+ * @param itemId - File or folder to rename
+ * @param newName - New name
+ * @param options - Dry-run flag
+ * @returns Promise<WriteResult> - The renamed item and its previous path
+ */
+export async function renameItem(env: Env, itemId: string, newName: string, options: WriteOptions = {}): Promise<WriteResult> {
+	assertWriteToolsEnabled(env);
+	const name = validateName(newName);
+	const { file, path } = await getItemInRoot(env, await getFolderIndex(env), itemId);
+	const newPath = joinPath(path.slice(0, Math.max(0, path.length - (file.name ?? '').length - 1)), name);
+
+	if (options.dryRun) {
+		return { action: 'renameItem', dryRun: true, item: { ...toWrittenItem(file, newPath), name }, previousPath: path };
+	}
+
+	const updated = await driveWrite(
+		env,
+		`${DRIVE_FILES_URL}/${encodeURIComponent(itemId)}?fields=${ITEM_FIELDS}&supportsAllDrives=true`,
+		{ method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ name }) },
+		'Failed to rename item'
+	);
+	if (updated.mimeType === FOLDER_MIME_TYPE) {
+		clearFolderIndexCache();
+	}
+	return { action: 'renameItem', dryRun: false, item: toWrittenItem(updated, newPath), previousPath: path };
+}
+
+/**
+ * Move a file or folder to another folder under the root
+ * @param env - Environment variables for Google API
+ * @param itemId - File or folder to move
+ * @param newParentId - Destination folder
+ * @param options - Dry-run flag
+ * @returns Promise<WriteResult> - The moved item and its previous path
+ */
+export async function moveItem(env: Env, itemId: string, newParentId: string, options: WriteOptions = {}): Promise<WriteResult> {
+	assertWriteToolsEnabled(env);
+	const folderIndex = await getFolderIndex(env);
+	const { file, path } = await getItemInRoot(env, folderIndex, itemId);
+	const parentPath = folderPathOf(folderIndex, newParentId);
+	if (newParentId === itemId || folderIndex.ancestorsOf(newParentId).includes(itemId)) {
+		throw new ToolError('INVALID_ARGUMENT', `Cannot move a folder into itself: ${path}`);
+	}
+	const newPath = joinPath(parentPath, file.name ?? '');
+
+	if (options.dryRun) {
+		return { action: 'moveItem', dryRun: true, item: toWrittenItem(file, newPath), previousPath: path };
+	}
+
+	// Only detach the item from folders under the root; links to folders elsewhere are not the caller's to change
+	const query = new URLSearchParams({
+		addParents: newParentId,
+		removeParents: (file.parents || []).filter((parentId) => folderIndex.has(parentId)).join(','),
+		fields: ITEM_FIELDS,
+		supportsAllDrives: 'true',
+	});
+	const updated = await driveWrite(
+		env,
+		`${DRIVE_FILES_URL}/${encodeURIComponent(itemId)}?${query}`,
+		{ method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: '{}' },
+		'Failed to move item'
+	);
+	if (updated.mimeType === FOLDER_MIME_TYPE) {
+		clearFolderIndexCache();
+	}
+	return { action: 'moveItem', dryRun: false, item: toWrittenItem(updated, newPath), previousPath: path };
+}
+
+/**
+ * Move a file or folder under the root to the trash. Items can be restored from the Drive trash for 30 days.
+ * @param env - Environment variables for Google API
+ * @param itemId - File or folder to trash
+ * @param options - Dry-run flag
+ * @returns Promise<WriteResult> - The trashed item
+ */
+export async function trashItem(env: Env, itemId: string, options: WriteOptions = {}): Promise<WriteResult> {
+	assertWriteToolsEnabled(env);
+	const { file, path } = await getItemInRoot(env, await getFolderIndex(env), itemId);
+
+	if (options.dryRun) {
+		return { action: 'trashItem', dryRun: true, item: toWrittenItem(file, path), previousPath: path };
+	}
+
+	const updated = await driveWrite(
+		env,
+		`${DRIVE_FILES_URL}/${encodeURIComponent(itemId)}?fields=${ITEM_FIELDS}&supportsAllDrives=true`,
+		{ method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ trashed: true }) },
+		'Failed to trash item'
+	);
+	if (updated.mimeType === FOLDER_MIME_TYPE) {
+		clearFolderIndexCache();
+	}
+	return { action: 'trashItem', dryRun: false, item: toWrittenItem(updated, path), previousPath: path };
+}
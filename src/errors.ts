@@ -0,0 +1,132 @@
+import { GoogleAuthError, TokenRequestError } from './auth';
+import { SandboxError } from './driveIds';
+
+export type ErrorCode =
+	| 'NOT_FOUND'
+	| 'PERMISSION_DENIED'
+	| 'RATE_LIMITED'
+	| 'UNSUPPORTED_TYPE'
+	| 'PARSE_FAILED'
+	| 'TOO_LARGE'
+	| 'AUTH_FAILED'
+	| 'INVALID_ARGUMENT'
+	| 'TIMEOUT'
+	| 'INTERNAL';
+
+/**
+ * The error part of every tool response. Agents should branch on code, not on message.
+ */
+export interface ToolErrorInfo {
+	code: ErrorCode;
+	message: string;
+	/** Whether the same call may succeed if repeated later */
+	retryable: boolean;
+	/** HTTP status of the Google API response that caused the error, if any */
+	status?: number;
+}
+
+export interface ErrorEnvelope {
+	success: false;
+	error: ToolErrorInfo;
+}
+
+const RATE_LIMIT_REASONS = /"reason"\s*:\s*"(rateLimitExceeded|userRateLimitExceeded)"/;
+
+/**
+ * An error with a stable code, raised anywhere below a tool and returned to the caller as an ErrorEnvelope
+ */
+export class ToolError extends Error {
+	readonly retryable: boolean;
+
+	constructor(
+		readonly code: ErrorCode,
+		message: string,
+		readonly status?: number,
+		retryable?: boolean
+	) {
+		super(message);
+		this.name = 'ToolError';
+		this.retryable = retryable ?? (code === 'RATE_LIMITED' || code === 'TIMEOUT' || (status !== undefined && status >= 500));
+	}
+
+	toInfo(): ToolErrorInfo {
+		return { code: this.code, message: this.message, retryable: this.retryable, status: this.status };
+	}
+}
+
+/**
+ * Map a Google API HTTP status to an error code
+ * @param status - HTTP status
+ * @param body - Response body; Drive reports rate limits as 403 with a rateLimitExceeded reason
+ * @returns ErrorCode
+ */
+export function codeForStatus(status: number, body = ''): ErrorCode {
+	switch (status) {
+		case 400:
+			return 'INVALID_ARGUMENT';
+		case 401:
+			return 'AUTH_FAILED';
+		case 403:
+			return RATE_LIMIT_REASONS.test(body) ? 'RATE_LIMITED' : 'PERMISSION_DENIED';
+		case 404:
+			return 'NOT_FOUND';
+		case 413:
+			return 'TOO_LARGE';
+		case 429:
+			return 'RATE_LIMITED';
+		default:
+			return 'INTERNAL';
+	}
+}
+
+/**
+ * Build a ToolError from a failed Google API response
+ * @param response - The failed response; its body is read
+ * @param message - What was being attempted, e.g. "Failed to list folder"
+ * @returns Promise<ToolError> - Error with the mapped code and the HTTP status
+ */
+export async function httpError(response: Response, message: string): Promise<ToolError> {
+	const body = await response.text().catch(() => '');
+	return new ToolError(codeForStatus(response.status, body), `${message}: ${response.status} ${response.statusText}`, response.status);
+}
+
+/**
+ * Convert anything thrown into a ToolError, keeping the code of errors that already carry one
+ * @param error - Thrown value
+ * @param message - Optional prefix describing what was being attempted
+ * @returns ToolError
+ */
+export function toToolError(error: unknown, message?: string): ToolError {
+	const describe = (text: string) => (message ? `${message}: ${text}` : text);
+
+	if (error instanceof ToolError) {
+		return message ? new ToolError(error.code, describe(error.message), error.status, error.retryable) : error;
+	}
+	if (error instanceof SandboxError) {
+		const code = error.reason === 'INVALID_ID' ? 'INVALID_ARGUMENT' : error.reason === 'NOT_FOUND' ? 'NOT_FOUND' : 'PERMISSION_DENIED';
+		return new ToolError(code, describe(error.message));
+	}
+	if (error instanceof TokenRequestError) {
+		return new ToolError('AUTH_FAILED', describe(error.message), error.status, error.status >= 500);
+	}
+	if (error instanceof GoogleAuthError) {
+		return new ToolError('AUTH_FAILED', describe(error.message));
+	}
+	return new ToolError('INTERNAL', describe(error instanceof Error ? error.message : 'Unknown error'));
+}
+
+/**
+ * Build a failed result with a stable error code
+ */
+export function failure(code: ErrorCode, message: string, status?: number): ErrorEnvelope {
+	return { success: false, error: new ToolError(code, message, status).toInfo() };
+}
+
+/**
+ * Build a failed result from anything thrown
+ * @param error - Thrown value
+ * @param message - Optional prefix describing what was being attempted
+ */
+export function failureFrom(error: unknown, message?: string): ErrorEnvelope {
+	return { success: false, error: toToolError(error, message).toInfo() };
+}
@@ -0,0 +1,140 @@
+import { authorizedFetch } from './auth';
+import { assertValidDriveId } from './driveIds';
+import { httpError, ToolError } from './errors';
+import { maxDownloadBytes, readLimitedBody } from './driveClient';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+	DRIVE_MAX_DOWNLOAD_BYTES?: string;
+}
+
+export interface FileRange {
+	fileId: string;
+	name: string;
+	mimeType: string;
+	/** File size in bytes, when Drive reports it */
+	size?: number;
+	/** Byte offset the text starts at; moved forward past a split UTF-8 character */
+	offset: number;
+	/** Bytes decoded into text */
+	bytesRead: number;
+	text: string;
+	/** Offset to pass for the following range; undefined at the end of the file */
+	nextOffset?: number;
+	eof: boolean;
+}
+
+/** Formats whose bytes are readable text, so any byte range can be decoded on its own */
+export const TEXT_RANGE_MIME_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/json'];
+export const DEFAULT_RANGE_LENGTH = 64 * 1024;
+export const MAX_RANGE_LENGTH = 1024 * 1024;
+
+const DRIVE_FILES_URL = 'https://www.googleapis.com/drive/v3/files';
+
+function isContinuationByte(byte: number): boolean {
+	return (byte & 0xc0) === 0x80;
+}
+
+/**
+ * Length of bytes without a UTF-8 character that is cut off at the end
+ */
+function completeUtf8Length(bytes: Uint8Array): number {
+	let lead = bytes.length - 1;
+	while (lead >= 0 && bytes.length - lead < 4 && isContinuationByte(bytes[lead])) {
+		lead--;
+	}
+	if (lead < 0 || bytes[lead] < 0xc0) {
+		return bytes.length;
+	}
+	const needed = bytes[lead] >= 0xf0 ? 4 : bytes[lead] >= 0xe0 ? 3 : 2;
+	return bytes.length - lead < needed ? lead : bytes.length;
+}
+
+/**
+ * Trim the first bytes of a partly read text file back to its last line break, or to its last whole character
+ * when it has no line break, so a truncated read never ends in half a line or half a character
+ * @param data - The first bytes of a UTF-8 text file
+ * @returns Uint8Array - A prefix of data
+ */
+export function completeTextPrefix(data: Uint8Array): Uint8Array {
+	const lineBreak = data.lastIndexOf(0x0a);
+	return data.subarray(0, lineBreak >= 0 ? lineBreak + 1 : completeUtf8Length(data));
+}
+
+async function getFile(env: Env, fileId: string): Promise<{ name: string; mimeType: string; size?: number }> {
+	const response = await authorizedFetch(env, `${DRIVE_FILES_URL}/${fileId}?fields=id,name,mimeType,size&supportsAllDrives=true`);
+	if (!response.ok) {
+		throw await httpError(response, 'Failed to get file metadata');
+	}
+	const data = (await response.json()) as { name?: string; mimeType?: string; size?: string };
+	return { name: data.name ?? '', mimeType: data.mimeType ?? '', size: data.size ? parseInt(data.size) : undefined };
+}
+
+/**
+ * Read part of a text file with an HTTP Range request, without downloading the rest of it
+ * @param env - Environment variables for Google API
+ * @param fileId - Google Drive file ID
+ * @param offset - Byte offset to start at
+ * @param length - Number of bytes to read (default 64 KiB, from 4 bytes to 1 MiB)
+ * @returns Promise<FileRange> - The decoded text and the offset of the following range
+ */
+export async function readFileRange(env: Env, fileId: string, offset = 0, length = DEFAULT_RANGE_LENGTH): Promise<FileRange> {
+	assertValidDriveId(fileId, 'file ID');
+	if (!Number.isInteger(offset) || offset < 0) {
+		throw new ToolError('INVALID_ARGUMENT', `Invalid offset: ${offset}. Use a whole number of bytes from 0`);
+	}
+	if (!Number.isInteger(length) || length < 1) {
+		throw new ToolError('INVALID_ARGUMENT', `Invalid length: ${length}. Use a whole number of bytes from 1`);
+	}
+	// Four bytes always hold at least one whole UTF-8 character, so every read makes progress
+	length = Math.max(4, Math.min(length, MAX_RANGE_LENGTH, maxDownloadBytes(env)));
+
+	const file = await getFile(env, fileId);
+	if (!TEXT_RANGE_MIME_TYPES.includes(file.mimeType)) {
+		throw new ToolError(
+			'UNSUPPORTED_TYPE',
+			`Byte ranges can only be read from ${TEXT_RANGE_MIME_TYPES.join(', ')} files, not ${file.mimeType}. Use parseFile instead`
+		);
+	}
+	if (file.size !== undefined && offset >= file.size) {
+		if (offset > file.size) {
+			throw new ToolError('INVALID_ARGUMENT', `Offset ${offset} is beyond the end of the file (${file.size} bytes)`);
+		}
+		return { fileId, ...file, offset, bytesRead: 0, text: '', eof: true };
+	}
+
+	const response = await authorizedFetch(env, `${DRIVE_FILES_URL}/${fileId}?alt=media`, {
+		headers: { Range: `bytes=${offset}-${offset + length - 1}` },
+	});
+	if (response.status === 416) {
+		await response.body?.cancel();
+		throw new ToolError('INVALID_ARGUMENT', `Offset ${offset} is beyond the end of the file`);
+	}
+	if (!response.ok) {
+		throw await httpError(response, 'Failed to read file range');
+	}
+
+	// A 200 means the Range header was ignored and the body starts at byte 0, so the bytes before offset are discarded as they arrive
+	const body = await readLimitedBody(response, length, response.status === 206 ? 0 : offset);
+	const bytes = new Uint8Array(body.data);
+	const eof = file.size !== undefined ? offset + bytes.length >= file.size : bytes.length < length;
+
+	let start = 0;
+	while (start < bytes.length && start < 3 && isContinuationByte(bytes[start])) {
+		start++;
+	}
+	const end = eof ? bytes.length : Math.max(start, completeUtf8Length(bytes));
+	const text = new TextDecoder().decode(bytes.subarray(start, end));
+
+	return {
+		fileId,
+		...file,
+		offset: offset + start,
+		bytesRead: end - start,
+		text,
+		nextOffset: eof ? undefined : offset + end,
+		eof,
+	};
+}
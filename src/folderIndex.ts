@@ -0,0 +1,177 @@
+import { fetchAllFiles, escapeQueryValue, FOLDER_MIME_TYPE } from './gdrive';
+import { mapWithConcurrency } from './concurrency';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+}
+
+export interface FolderEntry {
+	id: string;
+	name: string;
+	parentId?: string;
+	path: string;
+}
+
+const PARENTS_PER_QUERY = 20;
+const QUERY_CONCURRENCY = 4;
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+const indexCache = new Map<string, { index: FolderIndex; expiresAt: number }>();
+
+/**
+ * Every folder under the configured root, with its path relative to the root
+ */
+export class FolderIndex {
+	private readonly folders = new Map<string, FolderEntry>();
+
+	constructor(
+		readonly rootId: string,
+		entries: FolderEntry[]
+	) {
+		entries.forEach((entry) => this.folders.set(entry.id, entry));
+	}
+
+	/**
+	 * Check whether a folder is the root or one of its descendants
+	 * @param folderId - Folder ID
+	 * @returns boolean indicating if the folder is inside the root
+	 */
+	has(folderId: string): boolean {
+		return this.folders.has(folderId);
+	}
+
+	/**
+	 * Get a folder entry by ID
+	 * @param folderId - Folder ID
+	 * @returns FolderEntry or undefined when the folder is outside the root
+	 */
+	get(folderId: string): FolderEntry | undefined {
+		return this.folders.get(folderId);
+	}
+
+	/**
+	 * Get the root-relative path of a folder. The root itself has an empty path.
+	 * @param folderId - Folder ID
+	 * @returns string path or undefined when the folder is outside the root
+	 */
+	pathOf(folderId: string): string | undefined {
+		return this.folders.get(folderId)?.path;
+	}
+
+	/**
+	 * Get the root-relative path of an item from its name and parent IDs
+	 * @param name - Name of the item
+	 * @param parents - Parent folder IDs of the item
+	 * @returns string path or undefined when no parent is inside the root
+	 */
+	pathFor(name: string, parents: string[] | undefined): string | undefined {
+		for (const parentId of parents || []) {
+			const parentPath = this.pathOf(parentId);
+			if (parentPath !== undefined) {
+				return joinPath(parentPath, name);
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Get the IDs of a folder's ancestors, nearest first, ending at the root
+	 * @param folderId - Folder ID
+	 * @returns Array of folder IDs, empty for the root or folders outside it
+	 */
+	ancestorsOf(folderId: string): string[] {
+		const ancestors: string[] = [];
+		let current = this.folders.get(folderId);
+		while (current?.parentId) {
+			ancestors.push(current.parentId);
+			current = this.folders.get(current.parentId);
+		}
+		return ancestors;
+	}
+
+	/**
+	 * List every folder in the index
+	 * @returns Array of folder entries, root first
+	 */
+	entries(): FolderEntry[] {
+		return [...this.folders.values()];
+	}
+}
+
+export function joinPath(parentPath: string, name: string): string {
+	return parentPath ? `${parentPath}/${name}` : name;
+}
+
+async function loadFolderIndex(env: Env): Promise<FolderIndex> {
+	const rootId = env.FOLDER_ID;
+	const entries: FolderEntry[] = [{ id: rootId, name: '', path: '' }];
+	const paths = new Map<string, string>([[rootId, '']]);
+	let level = [rootId];
+
+	while (level.length > 0) {
+		const batches: string[][] = [];
+		for (let i = 0; i < level.length; i += PARENTS_PER_QUERY) {
+			batches.push(level.slice(i, i + PARENTS_PER_QUERY));
+		}
+
+		const results = await mapWithConcurrency(batches, QUERY_CONCURRENCY, (batch) =>
+			fetchAllFiles(
+				env,
+				{
+					q: `(${batch.map((id) => `'${escapeQueryValue(id)}' in parents`).join(' or ')}) and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`,
+					fields: 'nextPageToken,files(id,name,parents)',
+					supportsAllDrives: 'true',
+					includeItemsFromAllDrives: 'true',
+				},
+				'Failed to list subfolders'
+			)
+		);
+
+		const nextLevel: string[] = [];
+		for (const folder of results.flat()) {
+			if (!folder.id || paths.has(folder.id)) {
+				continue;
+			}
+
+			const parentId = (folder.parents || []).find((id) => paths.has(id));
+			if (parentId === undefined) {
+				continue;
+			}
+
+			const path = joinPath(paths.get(parentId)!, folder.name ?? '');
+			paths.set(folder.id, path);
+			entries.push({ id: folder.id, name: folder.name ?? '', parentId, path });
+			nextLevel.push(folder.id);
+		}
+
+		level = nextLevel;
+	}
+
+	return new FolderIndex(rootId, entries);
+}
+
+/**
+ * Get the folder index for the configured root, reusing a cached copy for a few minutes
+ * @param env - Environment variables for Google API
+ * @param refresh - Rebuild the index even if a cached copy is available
+ * @returns Promise<FolderIndex> - Index of all folders under FOLDER_ID
+ */
+export async function getFolderIndex(env: Env, refresh = false): Promise<FolderIndex> {
+	const cached = indexCache.get(env.FOLDER_ID);
+	if (!refresh && cached && cached.expiresAt > Date.now()) {
+		return cached.index;
+	}
+
+	const index = await loadFolderIndex(env);
+	indexCache.set(env.FOLDER_ID, { index, expiresAt: Date.now() + INDEX_TTL_MS });
+	return index;
+}
+
+/**
+ * Drop all cached folder indexes, so the next lookup sees folders created, moved or trashed since
+ */
+export function clearFolderIndexCache(): void {
+	indexCache.clear();
+}
@@ -0,0 +1,144 @@
+import { listFilesAndFolders, getCurrentFolder, DriveItem } from './gdrive';
+import { mapWithConcurrency } from './concurrency';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+}
+
+export interface FolderTreeOptions {
+	maxDepth?: number;
+	includeFiles?: boolean;
+	mimeTypeFilter?: string;
+	maxNodes?: number;
+	concurrency?: number;
+	/** Root-relative path of the starting folder, so node paths are root-relative. Defaults to the folder's name */
+	rootPath?: string;
+}
+
+export interface FolderTreeNode extends DriveItem {
+	depth: number;
+	children?: FolderTreeNode[];
+	counts?: { files: number; folders: number };
+	truncated?: boolean;
+}
+
+export interface FolderTree {
+	root: FolderTreeNode;
+	totals: { files: number; folders: number; nodes: number };
+	maxDepth: number;
+	truncated: boolean;
+}
+
+export const DEFAULT_TREE_DEPTH = 3;
+export const DEFAULT_MAX_NODES = 500;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Build a predicate from a comma-separated MIME type filter. Entries ending in "/" or "/*" match a whole family, e.g. "image/*".
+ * @param filter - Comma-separated MIME types
+ * @returns Predicate for file MIME types, or undefined when no filter is set
+ */
+export function createMimeTypeMatcher(filter: string | undefined): ((mimeType: string) => boolean) | undefined {
+	const patterns = (filter || '')
+		.split(',')
+		.map((pattern) => pattern.trim().toLowerCase())
+		.filter((pattern) => pattern.length > 0);
+
+	if (patterns.length === 0) {
+		return undefined;
+	}
+
+	return (mimeType: string) => {
+		const value = mimeType.toLowerCase();
+		return patterns.some((pattern) => {
+			if (pattern.endsWith('/*') || pattern.endsWith('/')) {
+				return value.startsWith(pattern.replace(/\*$/, ''));
+			}
+			return value === pattern;
+		});
+	};
+}
+
+/**
+ * Walk a folder breadth-first and return it as a nested tree
+ * @param env - Environment variables for Google API
+ * @param folderId - ID of the folder to start from
+ * @param options - Depth, file inclusion, MIME type filter, node cap and concurrency
+ * @returns Promise<FolderTree> - Nested tree with paths, per-folder counts and totals
+ */
+export async function buildFolderTree(env: Env, folderId: string = env.FOLDER_ID, options: FolderTreeOptions = {}): Promise<FolderTree> {
+	const maxDepth = Math.max(0, options.maxDepth ?? DEFAULT_TREE_DEPTH);
+	const maxNodes = Math.max(1, options.maxNodes ?? DEFAULT_MAX_NODES);
+	const includeFiles = options.includeFiles ?? true;
+	const matchesMimeType = createMimeTypeMatcher(options.mimeTypeFilter);
+
+	const folder = await getCurrentFolder(folderId, env);
+	const root: FolderTreeNode = {
+		name: folder.name ?? '',
+		id: folder.id ?? folderId,
+		mimeType: folder.mimeType ?? 'application/vnd.google-apps.folder',
+		isFolder: true,
+		path: options.rootPath ?? folder.name ?? '',
+		depth: 0,
+	};
+
+	const totals = { files: 0, folders: 0, nodes: 1 };
+	let truncated = false;
+	let level: FolderTreeNode[] = [root];
+
+	while (level.length > 0) {
+		if (totals.nodes >= maxNodes) {
+			level.forEach((node) => (node.truncated = true));
+			truncated = true;
+			break;
+		}
+
+		const expandable = level.filter((node) => node.depth < maxDepth);
+		level.filter((node) => node.depth >= maxDepth).forEach((node) => (node.truncated = true));
+
+		const listings = await mapWithConcurrency(expandable, options.concurrency ?? DEFAULT_CONCURRENCY, (node) =>
+			listFilesAndFolders(env, node.id, node.path)
+		);
+
+		const nextLevel: FolderTreeNode[] = [];
+		expandable.forEach((node, index) => {
+			const items = listings[index].filter(
+				(item) => item.isFolder || (includeFiles && (!matchesMimeType || matchesMimeType(item.mimeType)))
+			);
+
+			node.counts = {
+				files: items.filter((item) => !item.isFolder).length,
+				folders: items.filter((item) => item.isFolder).length,
+			};
+			node.children = [];
+
+			for (const item of items) {
+				if (totals.nodes >= maxNodes) {
+					node.truncated = true;
+					truncated = true;
+					break;
+				}
+
+				const child: FolderTreeNode = {
+					...item,
+					depth: node.depth + 1,
+				};
+				node.children.push(child);
+				totals.nodes++;
+
+				if (item.isFolder) {
+					totals.folders++;
+					nextLevel.push(child);
+				} else {
+					totals.files++;
+				}
+			}
+		});
+
+		level = nextLevel;
+	}
+
+	return { root, totals, maxDepth, truncated };
+}
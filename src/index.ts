@@ -1,7 +1,36 @@
 import { WorkerEntrypoint } from 'cloudflare:workers';
-import { ProxyToSelf } from 'workers-mcp';
-import { listFiles, listDriveFiles, listRootContents, getCurrentFolder, listFoldersWithDetails, listFilesAndFolders } from './gdrive';
-import { FileParser } from './FileParser';
+import {
+	listFiles,
+	listDriveFiles,
+	listRootContents,
+	listRootContentsPage,
+	getCurrentFolder,
+	listFoldersWithDetails,
+	listFoldersWithDetailsPage,
+	listFilesAndFolders,
+	listFilesAndFoldersPage,
+} from './gdrive';
+import { FileParser, ParsedContent } from './FileParser';
+import { buildFolderTree } from './folderTree';
+import { searchFiles, SearchOptions } from './search';
+import { getStartPageToken, listChangesSince } from './changes';
+import { createFolder, uploadTextFile, updateFileContent, renameItem, moveItem, trashItem } from './driveWrite';
+import { ContentIndex, indexFolder } from './contentIndex';
+import { getParseCache } from './parseCache';
+import { toCsvTable, queryCsvTable, CsvQuery } from './csv';
+import { queryJsonPath } from './json';
+import { findSection, getSectionContent, HEADING_PATH_SEPARATOR } from './outline';
+import { AnalysisOptions } from './analysis';
+import { handleRpcRequest } from './rpc';
+import { ensureInRoot, isInRoot } from './sandbox';
+import { resolvePath, resolveItem } from './paths';
+import { listRevisions, diffRevisions } from './revisions';
+import { compareContents, CompareMode, COMPARE_MODES } from './compare';
+import { readFileRange, DEFAULT_RANGE_LENGTH } from './fileRange';
+import { parseFiles, parseFolder, ParseFolderOptions } from './batchParse';
+import { failure, failureFrom, ToolError } from './errors';
+import { withDeadline, DEFAULT_TOOL_DEADLINE_MS } from './driveClient';
+import { chunkContent, buildChunkManifest, pageStartLinesFor, ChunkOptions, ChunkUnit, DEFAULT_CHUNK_SIZE } from './chunker';
 
 interface Env {
 	GOOGLE_CLIENT_EMAIL: string;
@@ -9,14 +38,80 @@ interface Env {
 	GOOGLE_PROJECT_ID: string;
 	FOLDER_ID: string;
 	SHARED_SECRET: string;
+	API_KEYS?: string;
+	GOOGLE_DRIVE_SCOPE?: string;
+	CONTENT_INDEX?: KVNamespace;
+	PARSE_CACHE?: KVNamespace;
+	PARSE_CACHE_TTL_SECONDS?: string;
+	PARSE_CACHE_MAX_BYTES?: string;
+	DRIVE_STATE?: KVNamespace;
+	ENABLE_WRITE_TOOLS?: string;
+	ANALYSIS_STOPWORDS?: string;
+	ANALYSIS_VOCABULARY?: string;
+	DRIVE_MAX_RETRIES?: string;
+	DRIVE_RETRY_BASE_MS?: string;
+	DRIVE_TIMEOUT_MS?: string;
+	DRIVE_TOOL_DEADLINE_MS?: string;
+	DRIVE_MAX_DOWNLOAD_BYTES?: string;
 }
 
 function initializeEnv(env: Env) {
 	if (!env.GOOGLE_CLIENT_EMAIL || !env.GOOGLE_PRIVATE_KEY || !env.GOOGLE_PROJECT_ID || !env.FOLDER_ID || !env.SHARED_SECRET) {
-		throw new Error('Missing required environment variables');
+		throw new ToolError('INTERNAL', 'Missing required environment variables');
 	}
 }
 
+/**
+ * Run a tool body and turn anything it throws into an ErrorEnvelope, so every tool fails the same way
+ */
+async function respond(run: () => Promise<string>): Promise<string> {
+	try {
+		return await run();
+	} catch (error) {
+		const envelope = failureFrom(error);
+		console.log('Tool failed:', envelope.error.code, envelope.error.message);
+		return JSON.stringify(envelope);
+	}
+}
+
+function chunkOptionsFor(data: ParsedContent, chunkSize: number | undefined, chunkUnit: ChunkUnit | undefined): ChunkOptions {
+	return {
+		chunkSize,
+		unit: chunkUnit,
+		pageStartLines: data.pages ? pageStartLinesFor(data.pages) : undefined,
+	};
+}
+
+function splitList(value: string | undefined): string[] {
+	return (value || '')
+		.split(/[,\n]/)
+		.map((item) => item.trim())
+		.filter((item) => item.length > 0);
+}
+
+function analysisOptionsFor(env: Env, summarySentences?: number, stopwords?: string[], vocabulary?: string[]): AnalysisOptions {
+	return {
+		summarySentences,
+		stopwords: [...splitList(env.ANALYSIS_STOPWORDS), ...(stopwords || [])],
+		vocabulary: [...splitList(env.ANALYSIS_VOCABULARY), ...(vocabulary || [])],
+	};
+}
+
+const NON_TOOL_METHODS = new Set(['constructor', 'fetch']);
+
+function isTool(method: string): boolean {
+	return (
+		!NON_TOOL_METHODS.has(method) &&
+		!method.startsWith('_') &&
+		Object.prototype.hasOwnProperty.call(MyWorker.prototype, method) &&
+		typeof (MyWorker.prototype as unknown as Record<string, unknown>)[method] === 'function'
+	);
+}
+
+function isPaged(cursor?: string, limit?: number): boolean {
+	return (typeof cursor === 'string' && cursor.length > 0) || typeof limit === 'number';
+}
+
 export default class MyWorker extends WorkerEntrypoint<Env> {
 	/**
 	 * A warm, friendly greeting from your new Workers MCP server.
@@ -24,8 +119,10 @@ export default class MyWorker extends WorkerEntrypoint<Env> {
 	 * @return {string} the contents of our greeting.
 	 */
 	async sayHello(name: string): Promise<string> {
-		initializeEnv(this.env);
-		return `Hello ${name}!`;
+		return respond(async () => {
+			initializeEnv(this.env);
+			return `Hello ${name}!`;
+		});
 	}
 
 	/**
@@ -33,8 +130,15 @@ export default class MyWorker extends WorkerEntrypoint<Env> {
 	 **/
 	async fetch(request: Request): Promise<Response> {
 		initializeEnv(this.env);
-		const proxy = new ProxyToSelf(this);
-		return proxy.fetch(request);
+		return handleRpcRequest(request, this.env, {
+			isTool,
+			callTool: (method, args, env) => {
+				// Run the tool with the caller's root in place of FOLDER_ID, and a time budget for its Drive requests
+				const deadlineMs = Number(env.DRIVE_TOOL_DEADLINE_MS) || DEFAULT_TOOL_DEADLINE_MS;
+				const scoped = Object.create(this, { env: { value: withDeadline(env, deadlineMs) } }) as MyWorker;
+				return (scoped[method as keyof MyWorker] as (...args: unknown[]) => Promise<unknown>).call(scoped, ...args);
+			},
+		});
 	}
 
 	/**
@@ -42,40 +146,114 @@ export default class MyWorker extends WorkerEntrypoint<Env> {
 	 * @return {string} JSON string containing list of files with their metadata. Each object contains {name: string, id: string}
 	 */
 	async listFiles(): Promise<string> {
-		initializeEnv(this.env);
-		const files = await listFiles(this.env);
-		return JSON.stringify(files);
+		return respond(async () => {
+			initializeEnv(this.env);
+			const files = await listFiles(this.env);
+			return JSON.stringify(files);
+		});
 	}
 
 	/**
-	 * List all files and folders in a specific folder
-	 * @param {string} folderId - The ID of the folder to list contents from
-	 * @return {string} JSON string containing list of files and folders. Each object contains {name: string, id: string, mimeType: string, isFolder: boolean}
+	 * List all files and folders in a specific folder. Pass cursor or limit to read one page at a time.
+	 * @param {string} folderId - The ID or root-relative path of the folder to list contents from, e.g. "Week 5/Lecture Notes"
+	 * @param {string} [cursor] - Cursor returned as nextCursor by a previous call, to fetch the next page
+	 * @param {number} [limit] - Maximum number of items per page (1-1000)
+	 * @return {string} JSON string containing list of files and folders. Each object contains {name: string, id: string, mimeType: string, isFolder: boolean, path: string, modifiedTime?: string}, where path is relative to the root folder. When paging, the structure is {items: Array, nextCursor?: string}
 	 */
-	async listFilesInFolder(folderId: string): Promise<string> {
-		initializeEnv(this.env);
-		console.log('Listing contents in folder:', folderId);
-		const contents = await listFilesAndFolders(this.env, folderId);
-		console.log('Found contents:', contents);
-		return JSON.stringify(contents);
+	async listFilesInFolder(folderId: string, cursor?: string, limit?: number): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const folder = await resolveItem(this.env, folderId, 'folder ID');
+			console.log('Listing contents in folder:', folder.id);
+			if (isPaged(cursor, limit)) {
+				const page = await listFilesAndFoldersPage(this.env, folder.id, { cursor, limit }, folder.path);
+				console.log('Found page of contents:', page.items.length);
+				return JSON.stringify(page);
+			}
+			const contents = await listFilesAndFolders(this.env, folder.id, folder.path);
+			console.log('Found contents:', contents);
+			return JSON.stringify(contents);
+		});
 	}
 
 	/**
-	 * List all contents (files and folders) in the root directory
-	 * @return {string} JSON string containing list of all items. Each object contains {name: string, id: string, mimeType: string}
+	 * List all contents (files and folders) in the root directory. Pass cursor or limit to read one page at a time.
+	 * @param {string} [cursor] - Cursor returned as nextCursor by a previous call, to fetch the next page
+	 * @param {number} [limit] - Maximum number of items per page (1-1000)
+	 * @return {string} JSON string containing list of all items. Each object contains {name: string, id: string, mimeType: string}. When paging, the structure is {items: Array, nextCursor?: string}
 	 */
-	async listRootContents(): Promise<string> {
-		initializeEnv(this.env);
-		console.log('Listing root contents...');
-		const contents = await listRootContents(this.env);
-		console.log('Root contents:', contents);
-		return JSON.stringify(
-			contents.map((item) => ({
-				name: item.name,
-				id: item.id,
-				mimeType: item.mimeType,
-			}))
-		);
+	async listRootContents(cursor?: string, limit?: number): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			console.log('Listing root contents...');
+			if (isPaged(cursor, limit)) {
+				return JSON.stringify(await listRootContentsPage(this.env, { cursor, limit }));
+			}
+			const contents = await listRootContents(this.env);
+			console.log('Root contents:', contents);
+			return JSON.stringify(
+				contents.map((item) => ({
+					name: item.name,
+					id: item.id,
+					mimeType: item.mimeType,
+				}))
+			);
+		});
+	}
+
+	/**
+	 * Get the nested layout of a folder in one call, walking subfolders up to a maximum depth
+	 * @param {string} [folderId] - The ID or root-relative path of the folder to start from. Defaults to the root folder
+	 * @param {number} [maxDepth] - How many levels of subfolders to expand (default 3)
+	 * @param {boolean} [includeFiles] - Whether to include files as well as folders (default true)
+	 * @param {string} [mimeTypeFilter] - Comma-separated MIME types to keep, e.g. "application/pdf,image/*". Folders are always kept
+	 * @param {number} [maxNodes] - Maximum number of nodes to return (default 500)
+	 * @return {string} JSON string containing {root: FolderTreeNode, totals: {files: number, folders: number, nodes: number}, maxDepth: number, truncated: boolean}. Each node contains {name, id, mimeType, isFolder, path, depth, children?, counts?, truncated?}, where path is relative to the root folder
+	 */
+	async getFolderTree(
+		folderId?: string,
+		maxDepth?: number,
+		includeFiles?: boolean,
+		mimeTypeFilter?: string,
+		maxNodes?: number
+	): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const folder = await resolveItem(this.env, folderId || this.env.FOLDER_ID, 'folder ID');
+			console.log('Building folder tree:', folder.id);
+			const tree = await buildFolderTree(this.env, folder.id, { maxDepth, includeFiles, mimeTypeFilter, maxNodes, rootPath: folder.path });
+			console.log('Folder tree totals:', tree.totals);
+			return JSON.stringify(tree);
+		});
+	}
+
+	/**
+	 * Search files and folders under the root folder by name and/or full text
+	 * @param {string} query - Text to search for
+	 * @param {object} [options] - Optional filters: {mode?: "name" | "fullText" | "both", mimeType?: string, modifiedAfter?: string, modifiedBefore?: string, owner?: string, limit?: number}. Dates are ISO 8601, owner is an email address
+	 * @return {string} JSON string containing list of matches. Each object contains {id: string, name: string, mimeType: string, isFolder: boolean, path: string, folderPath: string, modifiedTime?: string, size?: number, owners?: Array<string>}
+	 */
+	async searchFiles(query: string, options?: SearchOptions): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			console.log('Searching files:', query);
+			const results = await searchFiles(this.env, query, options || {});
+			console.log('Search matches:', results.length);
+			return JSON.stringify(results);
+		});
+	}
+
+	/**
+	 * Find the file or folder at a path under the root folder, such as "Week 5/Lecture Notes/slides.pdf". Names match case-insensitively when no name matches exactly; a trailing slash only matches folders.
+	 * @param {string} path - Root-relative path. "" or "/" is the root folder
+	 * @return {string} JSON string containing {path: string, matches: Array<{id: string, name: string, mimeType: string, isFolder: boolean, path: string, modifiedTime?: string}>, ambiguous: boolean}. ambiguous is true when several items share the name; pass the right ID to other tools
+	 */
+	async resolvePath(path: string): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			console.log('Resolving path:', path);
+			return JSON.stringify(await resolvePath(this.env, path));
+		});
 	}
 
 	/**
@@ -83,42 +261,430 @@ export default class MyWorker extends WorkerEntrypoint<Env> {
 	 * @return {string} JSON string containing details of the current folder with {id: string, name: string, mimeType: string, parents?: Array<string>}
 	 */
 	async getCurrentFolder(): Promise<string> {
-		initializeEnv(this.env);
-		console.log('Getting current folder...');
-		const folder = await getCurrentFolder(this.env.FOLDER_ID, this.env);
-		console.log('Current folder:', folder);
-		return JSON.stringify(folder);
+		return respond(async () => {
+			initializeEnv(this.env);
+			console.log('Getting current folder...');
+			const folder = await getCurrentFolder(this.env.FOLDER_ID, this.env);
+			console.log('Current folder:', folder);
+			return JSON.stringify(folder);
+		});
 	}
 
 	/**
-	 * List all folders with their details
-	 * @return {string} JSON string containing list of folders. Each object contains {name: string, id: string, mimeType: string}
+	 * List all folders with their details. Pass cursor or limit to read one page at a time.
+	 * @param {string} [cursor] - Cursor returned as nextCursor by a previous call, to fetch the next page
+	 * @param {number} [limit] - Maximum number of folders per page (1-1000)
+	 * @return {string} JSON string containing list of folders. Each object contains {name: string, id: string, mimeType: string}. When paging, the structure is {items: Array, nextCursor?: string}
 	 */
-	async listFoldersWithDetails(): Promise<string> {
-		initializeEnv(this.env);
-		console.log('Listing all folders...');
-		const folders = await listFoldersWithDetails(this.env);
-		console.log('Found folders:', folders);
-		return JSON.stringify(
-			folders.map((folder) => ({
-				name: folder.name,
-				id: folder.id,
-				mimeType: folder.mimeType,
-			}))
-		);
+	async listFoldersWithDetails(cursor?: string, limit?: number): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			console.log('Listing all folders...');
+			if (isPaged(cursor, limit)) {
+				return JSON.stringify(await listFoldersWithDetailsPage(this.env, { cursor, limit }));
+			}
+			const folders = await listFoldersWithDetails(this.env);
+			console.log('Found folders:', folders);
+			return JSON.stringify(
+				folders.map((folder) => ({
+					name: folder.name,
+					id: folder.id,
+					mimeType: folder.mimeType,
+				}))
+			);
+		});
 	}
 
 	/**
-	 * Parse a file from Google Drive by file ID
-	 * @param {string} fileId - The ID of the file to parse
-	 * @return {string} JSON string containing parsed content and metadata. Structure: {success: boolean, data?: ParsedContent, error?: string}
+	 * Get a page token for the current state of Drive. Keep it and pass it to listChangesSince later to see what changed under the root folder in between.
+	 * @return {string} JSON string containing {pageToken: string}
 	 */
-	async parseFile(fileId: string): Promise<string> {
-		initializeEnv(this.env);
-		console.log('Parsing file:', fileId);
-		const result = await FileParser.parseFileFromDrive(fileId, this.env);
-		console.log('Parse result:', result.success ? 'success' : `error: ${result.error}`);
-		return JSON.stringify(result);
+	async getStartPageToken(): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const pageToken = await getStartPageToken(this.env);
+			return JSON.stringify({ pageToken });
+		});
+	}
+
+	/**
+	 * List items under the root folder that were added, modified, moved, trashed or removed since a page token was issued
+	 * @param {string} pageToken - Token from getStartPageToken or the nextPageToken of a previous call
+	 * @param {boolean} [summary] - Group changes by folder instead of listing each item
+	 * @param {number} [maxPages] - Maximum number of Drive change pages to read in one call (default 5, max 20)
+	 * @return {string} JSON string containing {changes?: Array<{type: "added" | "modified" | "moved" | "trashed" | "removed", fileId, name, mimeType, isFolder, path?, previousPath?, time?, modifiedTime?}>, folders?: Array<{folderPath, counts: {added, modified, moved, trashed, removed}, items: Array<{type, name, fileId}>}>, total: number, nextPageToken: string, hasMore: boolean}. folders replaces changes in summary mode. Save nextPageToken for the next call; when hasMore is true, call again straight away
+	 */
+	async listChangesSince(pageToken: string, summary?: boolean, maxPages?: number): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			console.log('Listing changes since:', pageToken);
+			const result = await listChangesSince(this.env, pageToken, { summary, maxPages });
+			console.log('Changes found:', result.total, 'hasMore:', result.hasMore);
+			return JSON.stringify(result);
+		});
+	}
+
+	/**
+	 * Parse a file from Google Drive by file ID. Pass chunkSize to get a chunk manifest instead of the full text, then fetch chunks with getFileChunk.
+	 * @param {string} fileId - The ID or root-relative path of the file to parse, e.g. "Week 5/Lecture Notes/slides.pdf"
+	 * @param {number} [chunkSize] - Maximum size of each chunk, in chunkUnit
+	 * @param {string} [chunkUnit] - Unit of chunkSize: "chars" (default) or "tokens" (approximate)
+	 * @return {string} JSON string containing parsed content and metadata. Structure: {success: boolean, data?: ParsedContent, error?: {code: string, message: string, retryable: boolean, status?: number}, cached?: boolean}; cached is true when the result came from the parse cache. With chunkSize, data is {metadata, chunkSize, chunkUnit, chunkCount, chunks: Array<{index, startLine, endLine, startPage?, endPage?, heading?, charCount, approxTokens, preview}>}
+	 */
+	async parseFile(fileId: string, chunkSize?: number, chunkUnit?: ChunkUnit): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Parsing file:', file.id);
+			const result = await FileParser.parseFileFromDrive(file.id, this.env);
+			console.log('Parse result:', result.success ? 'success' : `error: ${result.error?.code}`);
+			if (!result.success || chunkSize === undefined) {
+				return JSON.stringify(result);
+			}
+
+			return JSON.stringify({
+				success: true,
+				cached: result.cached,
+				data: {
+					metadata: result.data!.metadata,
+					...buildChunkManifest(result.data!.content, chunkOptionsFor(result.data!, chunkSize, chunkUnit)),
+				},
+			});
+		});
+	}
+
+	/**
+	 * Parse a range of pages of a PDF and return the text of each page
+	 * @param {string} fileId - The ID or root-relative path of the PDF file
+	 * @param {number} [fromPage] - First page to return, 1-based (default 1)
+	 * @param {number} [toPage] - Last page to return, inclusive (default last page)
+	 * @param {boolean} [removeHeadersFooters] - Drop running headers, footers and page numbers that repeat on most pages
+	 * @return {string} JSON string containing {success: boolean, data?: {fileName: string, pageCount: number, fromPage: number, toPage: number, pages: Array<{pageNumber: number, text: string}>, bookmarks?: Array<{title, level, pageNumber?}>, removedLines?: Array<string>}, error?: {code: string, message: string, retryable: boolean, status?: number}}
+	 */
+	async parsePdfPages(fileId: string, fromPage?: number, toPage?: number, removeHeadersFooters?: boolean): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Parsing PDF pages:', file.id, fromPage ?? 1, '-', toPage ?? 'end');
+			const result = await FileParser.parseFileFromDrive(file.id, this.env, { fromPage, toPage, removeHeadersFooters });
+			if (!result.success) {
+				return JSON.stringify(result);
+			}
+
+			const { pages, bookmarks, metadata } = result.data!;
+			if (!pages) {
+				return JSON.stringify(failure('UNSUPPORTED_TYPE', `File is not a PDF: ${metadata.fileType}`));
+			}
+
+			const first = metadata.pageRange?.from ?? 1;
+			return JSON.stringify({
+				success: true,
+				cached: result.cached,
+				data: {
+					fileName: metadata.fileName,
+					pageCount: metadata.pageCount,
+					fromPage: first,
+					toPage: metadata.pageRange?.to ?? metadata.pageCount,
+					pages: pages.map((text, index) => ({ pageNumber: first + index, text })),
+					bookmarks,
+					removedLines: metadata.removedLines,
+				},
+			});
+		});
+	}
+
+	/**
+	 * Read part of a large text, Markdown, CSV or JSON file by byte offset, without downloading the rest. Use it for files parseFile refuses as TOO_LARGE or reports as truncated.
+	 * @param {string} fileId - The ID or root-relative path of the file
+	 * @param {number} [offset] - Byte offset to start at (default 0)
+	 * @param {number} [length] - Number of bytes to read (default 65536, at most 1048576)
+	 * @return {string} JSON string containing {fileId: string, name: string, mimeType: string, size?: number, offset: number, bytesRead: number, text: string, nextOffset?: number, eof: boolean}. Pass nextOffset as offset to read on; ranges start and end on whole UTF-8 characters
+	 */
+	async readFileRange(fileId: string, offset?: number, length?: number): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Reading file range:', file.id, offset ?? 0, length ?? DEFAULT_RANGE_LENGTH);
+			return JSON.stringify(await readFileRange(this.env, file.id, offset, length));
+		});
+	}
+
+	/**
+	 * Get one chunk of a parsed file. Use the same chunkSize and chunkUnit as the parseFile call that returned the manifest.
+	 * @param {string} fileId - The ID or root-relative path of the file
+	 * @param {number} index - Zero-based chunk index from the manifest
+	 * @param {number} [chunkSize] - Maximum size of each chunk, in chunkUnit (default 8000)
+	 * @param {string} [chunkUnit] - Unit of chunkSize: "chars" (default) or "tokens" (approximate)
+	 * @return {string} JSON string containing {success: boolean, data?: {fileName: string, chunkCount: number, fileTruncated: boolean, chunk: {index, text, startLine, endLine, startPage?, endPage?, heading?, charCount, approxTokens}}, error?: {code: string, message: string, retryable: boolean, status?: number}}. fileTruncated is true when only the start of a large text file was read, so later chunks are missing
+	 */
+	async getFileChunk(fileId: string, index: number, chunkSize?: number, chunkUnit?: ChunkUnit): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Getting chunk', index, 'of file:', file.id);
+			const result = await FileParser.parseFileFromDrive(file.id, this.env);
+			if (!result.success) {
+				return JSON.stringify(result);
+			}
+
+			const chunks = chunkContent(result.data!.content, chunkOptionsFor(result.data!, chunkSize ?? DEFAULT_CHUNK_SIZE, chunkUnit));
+			const chunk = chunks[index];
+			if (!chunk) {
+				return JSON.stringify(
+					failure('INVALID_ARGUMENT', `Chunk index ${index} is out of range. The file has ${chunks.length} chunks at this chunk size.`)
+				);
+			}
+
+			return JSON.stringify({
+				success: true,
+				cached: result.cached,
+				data: {
+					fileName: result.data!.metadata.fileName,
+					chunkCount: chunks.length,
+					fileTruncated: result.data!.metadata.truncated ?? false,
+					chunk,
+				},
+			});
+		});
+	}
+
+	/**
+	 * Get one section of a Markdown file, Google Doc or Word document by its heading path. parseFile returns the outline with every heading path.
+	 * @param {string} fileId - The ID or root-relative path of the file
+	 * @param {string} headingPath - Heading titles joined with " > ", e.g. "Week 3 > Assessment". Leading levels may be left out, so "Assessment" also matches
+	 * @return {string} JSON string containing {success: boolean, data?: {fileName: string, fileTruncated: boolean, title: string, level: number, path: Array<string>, startLine: number, endLine: number, text: string, subsections: Array<string>}, error?: {code: string, message: string, retryable: boolean, status?: number}}. fileTruncated is true when only the start of a large Markdown file was read, so the last section may be cut short and later sections are missing
+	 */
+	async getSection(fileId: string, headingPath: string): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Getting section of file:', file.id, headingPath);
+			const result = await FileParser.parseFileFromDrive(file.id, this.env);
+			if (!result.success) {
+				return JSON.stringify(result);
+			}
+
+			const { content, outline, metadata } = result.data!;
+			if (!outline || outline.sections.length === 0) {
+				return JSON.stringify(failure('NOT_FOUND', `File has no headings to navigate: ${metadata.fileName} (${metadata.fileType})`));
+			}
+
+			const section = findSection(outline.sections, headingPath);
+			if (!section) {
+				return JSON.stringify(
+					failure(
+						'NOT_FOUND',
+						`Section not found: ${headingPath}. Top-level sections: ${outline.sections.map((top) => top.path.join(HEADING_PATH_SEPARATOR)).join(', ')}`
+					)
+				);
+			}
+
+			return JSON.stringify({
+				success: true,
+				cached: result.cached,
+				data: {
+					fileName: metadata.fileName,
+					fileTruncated: metadata.truncated ?? false,
+					...getSectionContent(content, section),
+				},
+			});
+		});
+	}
+
+	/**
+	 * Query the rows of a CSV file without reading the whole file, e.g. the average score per tutorial group
+	 * @param {string} fileId - The ID or root-relative path of the CSV file
+	 * @param {object} [query] - Query object: {select?: Array<string>, where?: Array<{column: string, op?: "=" | "!=" | ">" | ">=" | "<" | "<=" | "contains" | "startsWith" | "in" | "empty" | "notEmpty", value?}>, groupBy?: string | Array<string>, aggregate?: Array<{fn: "count" | "countDistinct" | "sum" | "avg" | "min" | "max", column?: string, as?: string}>, orderBy?: {column: string, direction?: "asc" | "desc"}, limit?: number}. All where conditions must match; select cannot be combined with groupBy or aggregate. Limit defaults to 100 rows
+	 * @return {string} JSON string containing {success: boolean, data?: {fileName: string, fileTruncated: boolean, columns: Array<string>, rows: Array<object>, matchedRows: number, totalRows: number, truncated: boolean}, error?: {code: string, message: string, retryable: boolean, status?: number}}. fileTruncated is true when only the start of a large CSV file was read; counts and aggregates then cover only the rows read
+	 */
+	async queryCsv(fileId: string, query?: CsvQuery): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Querying CSV file:', file.id, JSON.stringify(query || {}));
+			const result = await FileParser.parseFileFromDrive(file.id, this.env);
+			if (!result.success) {
+				return JSON.stringify(result);
+			}
+			if (!result.data!.table) {
+				return JSON.stringify(failure('UNSUPPORTED_TYPE', `File is not a CSV file: ${result.data!.metadata.fileType}`));
+			}
+
+			try {
+				return JSON.stringify({
+					success: true,
+					cached: result.cached,
+					data: {
+						fileName: result.data!.metadata.fileName,
+						fileTruncated: result.data!.metadata.truncated ?? false,
+						...queryCsvTable(toCsvTable(result.data!.content), query || {}),
+					},
+				});
+			} catch (error) {
+				return JSON.stringify(
+					failure('INVALID_ARGUMENT', `Failed to query CSV: ${error instanceof Error ? error.message : 'Unknown error'}`)
+				);
+			}
+		});
+	}
+
+	/**
+	 * Pull values out of a JSON file with a JSONPath expression instead of reading the whole file
+	 * @param {string} fileId - The ID or root-relative path of the JSON file
+	 * @param {string} path - JSONPath expression. Supports $, .key, ['key'], [0], [-1], [*], [a,b], [start:end:step], ..key (recursive) and filters such as [?(@.score >= 80 && @.group == 'T1')]
+	 * @param {number} [limit] - Maximum number of matches to return (default 100)
+	 * @param {number} [maxArrayItems] - Maximum number of items kept from each array inside a returned value (default 50)
+	 * @return {string} JSON string containing {success: boolean, data?: {fileName: string, matches: Array<{path: string, value}>, matchCount: number, truncated: boolean, truncatedArrays: Array<{path: string, length: number, kept: number}>}, error?: {code: string, message: string, retryable: boolean, status?: number}}
+	 */
+	async queryJson(fileId: string, path: string, limit?: number, maxArrayItems?: number): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Querying JSON file:', file.id, path);
+			const result = await FileParser.parseFileFromDrive(file.id, this.env);
+			if (!result.success) {
+				return JSON.stringify(result);
+			}
+			if (!result.data!.jsonSchema) {
+				return JSON.stringify(failure('UNSUPPORTED_TYPE', `File is not a JSON file: ${result.data!.metadata.fileType}`));
+			}
+
+			try {
+				return JSON.stringify({
+					success: true,
+					cached: result.cached,
+					data: {
+						fileName: result.data!.metadata.fileName,
+						...queryJsonPath(JSON.parse(result.data!.content), path, { limit, maxArrayItems }),
+					},
+				});
+			} catch (error) {
+				return JSON.stringify(
+					failure('INVALID_ARGUMENT', `Failed to query JSON: ${error instanceof Error ? error.message : 'Unknown error'}`)
+				);
+			}
+		});
+	}
+
+	/**
+	 * Parse every supported file under a folder into the content index used by searchContent. Only files whose modifiedTime changed since the last run are parsed again.
+	 * @param {string} [folderId] - The ID or root-relative path of the folder to index recursively. Defaults to the root folder
+	 * @param {number} [maxFiles] - Maximum number of files to parse in this call (default 25). Call again while remaining is above 0
+	 * @param {boolean} [force] - Reindex files even if they have not changed
+	 * @return {string} JSON string containing {folderId: string, indexed: Array<{fileId, name, passages}>, failed: Array<{fileId, name, error}>, removed: number, unchanged: number, remaining: number}
+	 */
+	async indexFolder(folderId?: string, maxFiles?: number, force?: boolean): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const folder = await resolveItem(this.env, folderId || this.env.FOLDER_ID, 'folder ID');
+			console.log('Indexing folder:', folder.id);
+			const result = await indexFolder(this.env, folder.id, { maxFiles, force });
+			console.log('Indexed files:', result.indexed.length, 'remaining:', result.remaining);
+			return JSON.stringify(result);
+		});
+	}
+
+	/**
+	 * Search the content index built by indexFolder and return the best-matching passages
+	 * @param {string} query - Free-text query
+	 * @param {number} [topK] - Number of passages to return (default 10)
+	 * @return {string} JSON string containing list of passages ranked by BM25 score. Each object contains {fileId: string, fileName: string, mimeType: string, score: number, passageIndex: number, startLine: number, endLine: number, page?: number, text: string}
+	 */
+	async searchContent(query: string, topK?: number): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			if (!this.env.CONTENT_INDEX) {
+				throw new ToolError('INTERNAL', 'CONTENT_INDEX KV binding is not configured');
+			}
+			console.log('Searching content index:', query);
+			// The index is shared by every API key, so skip passages from files outside this caller's root
+			const results = await new ContentIndex(this.env.CONTENT_INDEX).search(query, topK ?? 10, (fileId) => isInRoot(this.env, fileId));
+			return JSON.stringify(results);
+		});
+	}
+
+	/**
+	 * Drop every cached parse result for a file, so the next parse reads it from Drive again
+	 * @param {string} fileId - The ID of the file
+	 * @return {string} JSON string containing {fileId: string, removed: number}
+	 */
+	async invalidateCache(fileId: string): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			await ensureInRoot(this.env, fileId, 'file ID');
+			const cache = getParseCache(this.env);
+			if (!cache) {
+				throw new ToolError('INTERNAL', 'PARSE_CACHE KV binding is not configured');
+			}
+			console.log('Invalidating parse cache for file:', fileId);
+			const removed = await cache.invalidate(fileId);
+			return JSON.stringify({ fileId, removed });
+		});
+	}
+
+	/**
+	 * List the stored revisions of a file, oldest first. Drive keeps revisions of binary files for 30 days unless they are kept forever.
+	 * @param {string} fileId - The ID or root-relative path of the file
+	 * @return {string} JSON string containing {fileId: string, name: string, mimeType: string, revisions: Array<{id: string, modifiedTime?: string, mimeType: string, size?: number, keepForever?: boolean, modifiedBy?: string}>}
+	 */
+	async listRevisions(fileId: string): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Listing revisions of file:', file.id);
+			return JSON.stringify(await listRevisions(this.env, file.id));
+		});
+	}
+
+	/**
+	 * Show what changed in a file between two revisions, as a line-level unified diff of the parsed text. Google Docs, Sheets (first tab) and Slides are compared as exported text.
+	 * @param {string} fileId - The ID or root-relative path of the file
+	 * @param {string} revA - ID of the older revision, from listRevisions
+	 * @param {string} revB - ID of the newer revision, from listRevisions
+	 * @param {number} [contextLines] - Unchanged lines shown around each change (default 3)
+	 * @return {string} JSON string containing {fileId, name, from: Revision, to: Revision, comparedAs: string, stats: {added: number, removed: number, unchanged: number}, hunks: number, diff: string, truncated: boolean}. diff is cut at 1000 lines, with truncated set
+	 */
+	async diffRevisions(fileId: string, revA: string, revB: string, contextLines?: number): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Diffing revisions of file:', file.id, revA, revB);
+			const result = await diffRevisions(this.env, file.id, revA, revB, { context: contextLines });
+			console.log('Revision diff:', result.stats);
+			return JSON.stringify(result);
+		});
+	}
+
+	/**
+	 * Compare the parsed text of two files, e.g. two versions of a handout or two students' submissions
+	 * @param {string} fileIdA - The ID or root-relative path of the first (older) file
+	 * @param {string} fileIdB - The ID or root-relative path of the second (newer) file
+	 * @param {string} [mode] - "lines" (default) for a unified diff, "sections" to diff Markdown or outlined documents heading by heading, or "similarity" for the overlap of 5-word shingles
+	 * @param {number} [maxChars] - Budget for diff text in the result (default 20000 characters)
+	 * @return {string} JSON string containing {a: {name, fileType, lines, words}, b: {name, fileType, lines, words}, mode} plus, for "lines", {stats: {added, removed, unchanged}, hunks: number, diff: string, truncated: boolean}; for "sections", {stats: {added, removed, changed, unchanged}, sections: Array<{path: string, status: "added" | "removed" | "changed", stats, diff?: string}>, truncated: boolean}; for "similarity", {shingleSize: number, jaccard: number, containmentA: number, containmentB: number, shinglesA: number, shinglesB: number, sharedShingles: number}
+	 */
+	async compareFiles(fileIdA: string, fileIdB: string, mode?: CompareMode, maxChars?: number): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			if (mode !== undefined && !COMPARE_MODES.includes(mode)) {
+				throw new ToolError('INVALID_ARGUMENT', `Unknown compare mode: ${mode}. Use one of ${COMPARE_MODES.join(', ')}`);
+			}
+			const [fileA, fileB] = await Promise.all([resolveItem(this.env, fileIdA, 'file ID'), resolveItem(this.env, fileIdB, 'file ID')]);
+			console.log('Comparing files:', fileA.id, fileB.id, mode || 'lines');
+			const [resultA, resultB] = await Promise.all([
+				FileParser.parseFileFromDrive(fileA.id, this.env),
+				FileParser.parseFileFromDrive(fileB.id, this.env),
+			]);
+			for (const [side, result] of [
+				['A', resultA],
+				['B', resultB],
+			] as const) {
+				if (!result.success) {
+					throw new ToolError(result.error!.code, `File ${side}: ${result.error!.message}`, result.error!.status, result.error!.retryable);
+				}
+			}
+			return JSON.stringify(compareContents(resultA.data!, resultB.data!, mode, { maxChars }));
+		});
 	}
 
 	/**
@@ -126,36 +692,102 @@ export default class MyWorker extends WorkerEntrypoint<Env> {
 	 * @return {string} JSON string containing array of supported MIME types
 	 */
 	async getSupportedFileTypes(): Promise<string> {
-		const supportedTypes = FileParser.getSupportedFileTypes();
-		return JSON.stringify(supportedTypes);
+		return respond(async () => {
+			const supportedTypes = FileParser.getSupportedFileTypes();
+			return JSON.stringify(supportedTypes);
+		});
 	}
 
 	/**
-	 * Parse a file and extract key information (summary, keywords, headings, etc.)
-	 * @param {string} fileId - The ID of the file to parse and analyze
-	 * @return {string} JSON string containing parsed content, metadata, and extracted key information
+	 * Parse a file and extract key information: TF-IDF keywords, RAKE keyphrases, a TextRank summary, headings and counts. Pass chunkSize to get a chunk manifest instead of the full text.
+	 * @param {string} fileId - The ID or root-relative path of the file to parse and analyze
+	 * @param {number} [chunkSize] - Maximum size of each chunk, in chunkUnit
+	 * @param {string} [chunkUnit] - Unit of chunkSize: "chars" (default) or "tokens" (approximate)
+	 * @param {number} [summarySentences] - Number of sentences in the summary (default 3)
+	 * @param {array} [stopwords] - Extra words to ignore, added to the English list and ANALYSIS_STOPWORDS
+	 * @param {array} [vocabulary] - Domain terms and phrases to rank higher, added to ANALYSIS_VOCABULARY
+	 * @return {string} JSON string containing parsed content, metadata, and analysis {summary, summarySentences, keywords, keywordScores, keyphrases, headings, potentialTables, wordCount, lineCount}. With chunkSize, content is replaced by chunkCount and chunks (see parseFile)
 	 */
-	async parseAndAnalyzeFile(fileId: string): Promise<string> {
-		initializeEnv(this.env);
-		console.log('Parsing and analyzing file:', fileId);
+	async parseAndAnalyzeFile(
+		fileId: string,
+		chunkSize?: number,
+		chunkUnit?: ChunkUnit,
+		summarySentences?: number,
+		stopwords?: string[],
+		vocabulary?: string[]
+	): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const file = await resolveItem(this.env, fileId, 'file ID');
+			console.log('Parsing and analyzing file:', file.id);
 
-		const parseResult = await FileParser.parseFileFromDrive(fileId, this.env);
-		if (!parseResult.success) {
-			return JSON.stringify(parseResult);
-		}
+			const parseResult = await FileParser.parseFileFromDrive(file.id, this.env);
+			if (!parseResult.success) {
+				return JSON.stringify(parseResult);
+			}
 
-		const keyInfo = FileParser.extractKeyInformation(parseResult.data!);
+			const keyInfo = FileParser.extractKeyInformation(
+				parseResult.data!,
+				analysisOptionsFor(this.env, summarySentences, stopwords, vocabulary)
+			);
 
-		const result = {
-			success: true,
-			data: {
-				...parseResult.data,
-				analysis: keyInfo,
-			},
-		};
+			if (chunkSize !== undefined) {
+				console.log('Analysis complete for file:', file.id);
+				return JSON.stringify({
+					success: true,
+					cached: parseResult.cached,
+					data: {
+						metadata: parseResult.data!.metadata,
+						analysis: keyInfo,
+						...buildChunkManifest(parseResult.data!.content, chunkOptionsFor(parseResult.data!, chunkSize, chunkUnit)),
+					},
+				});
+			}
 
-		console.log('Analysis complete for file:', fileId);
-		return JSON.stringify(result);
+			const result = {
+				success: true,
+				cached: parseResult.cached,
+				data: {
+					...parseResult.data,
+					analysis: keyInfo,
+				},
+			};
+
+			console.log('Analysis complete for file:', file.id);
+			return JSON.stringify(result);
+		});
+	}
+
+	/**
+	 * Parse and analyze several files in one call, e.g. a set of submissions. Files are downloaded a few at a time, and one failing file does not stop the rest.
+	 * @param {array} fileIds - IDs or root-relative paths of the files, at most 100
+	 * @return {string} JSON string containing {files: Array<{fileId?, name?, path?, reference?, success: boolean, cached?: boolean, fileType?: string, wordCount?: number, lineCount?: number, truncated?: boolean, summary?: string, keywords?: Array<string>, error?: {code, message, retryable, status?}}>, summary: {totalFiles: number, succeeded: number, totalWords: number, failedFiles: Array<{reference: string, name?: string, code: string, message: string}>, topKeywords: Array<{term: string, score: number, files: number}>}}. Use parseFile for a file's full text
+	 */
+	async parseFiles(fileIds: string[]): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			console.log('Parsing files:', fileIds?.length);
+			const result = await parseFiles(this.env, fileIds, analysisOptionsFor(this.env));
+			console.log('Batch parse complete:', result.summary.succeeded, 'of', result.summary.totalFiles);
+			return JSON.stringify(result);
+		});
+	}
+
+	/**
+	 * Parse and analyze the files in a folder in one call, e.g. a folder of submissions
+	 * @param {string} [folderId] - The ID or root-relative path of the folder. Defaults to the root folder
+	 * @param {object} [options] - Options object: {recursive?: boolean, mimeTypes?: Array<string>, maxFiles?: number}. recursive includes subfolders (default false); mimeTypes limits the files parsed (default every supported type); maxFiles defaults to 25, at most 100
+	 * @return {string} JSON string containing {folderId: string, files: Array<BatchFileResult>, summary: {totalFiles, succeeded, totalWords, failedFiles, topKeywords}, matched: number, remaining: number, unsupported: number}, with files and summary as in parseFiles. Files are parsed in path order; remaining counts matching files left out by maxFiles
+	 */
+	async parseFolder(folderId?: string, options?: ParseFolderOptions): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			const folder = await resolveItem(this.env, folderId || this.env.FOLDER_ID, 'folder ID');
+			console.log('Parsing folder:', folder.id, JSON.stringify(options || {}));
+			const result = await parseFolder(this.env, folder, options || {}, analysisOptionsFor(this.env));
+			console.log('Folder parse complete:', result.summary.succeeded, 'of', result.summary.totalFiles, 'remaining', result.remaining);
+			return JSON.stringify(result);
+		});
 	}
 
 	/**
@@ -164,7 +796,109 @@ export default class MyWorker extends WorkerEntrypoint<Env> {
 	 * @return {string} JSON string containing boolean result
 	 */
 	async isFileTypeSupported(mimeType: string): Promise<string> {
-		const isSupported = FileParser.isSupportedFileType(mimeType);
-		return JSON.stringify({ supported: isSupported, mimeType });
+		return respond(async () => {
+			const isSupported = FileParser.isSupportedFileType(mimeType);
+			return JSON.stringify({ supported: isSupported, mimeType });
+		});
+	}
+
+	/**
+	 * Create a folder under the root folder. Requires ENABLE_WRITE_TOOLS.
+	 * @param {string} name - Name of the new folder
+	 * @param {string} [parentId] - The ID of the folder to create it in. Defaults to the root folder
+	 * @param {boolean} [dryRun] - Report what would happen without changing Drive
+	 * @return {string} JSON string containing {action: string, dryRun: boolean, item: {id?, name, mimeType, isFolder, path, modifiedTime?, size?}, previousPath?: string}
+	 */
+	async createFolder(name: string, parentId?: string, dryRun?: boolean): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			await ensureInRoot(this.env, parentId || this.env.FOLDER_ID, 'folder ID');
+			console.log('Creating folder:', name, dryRun ? '(dry run)' : '');
+			return JSON.stringify(await createFolder(this.env, name, parentId || this.env.FOLDER_ID, { dryRun }));
+		});
+	}
+
+	/**
+	 * Upload a new text file, such as notes in Markdown, under the root folder. Requires ENABLE_WRITE_TOOLS.
+	 * @param {string} name - File name, e.g. "week3-notes.md"
+	 * @param {string} content - Text content, at most 5 MB
+	 * @param {string} [parentId] - The ID of the folder to upload into. Defaults to the root folder
+	 * @param {string} [mimeType] - text/* type or application/json (default "text/plain")
+	 * @param {boolean} [dryRun] - Report what would happen without changing Drive
+	 * @return {string} JSON string containing {action: string, dryRun: boolean, item: {id?, name, mimeType, isFolder, path, modifiedTime?, size?}}
+	 */
+	async uploadTextFile(name: string, content: string, parentId?: string, mimeType?: string, dryRun?: boolean): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			await ensureInRoot(this.env, parentId || this.env.FOLDER_ID, 'folder ID');
+			console.log('Uploading text file:', name, dryRun ? '(dry run)' : '');
+			return JSON.stringify(
+				await uploadTextFile(this.env, name, content, parentId || this.env.FOLDER_ID, mimeType || 'text/plain', { dryRun })
+			);
+		});
+	}
+
+	/**
+	 * Replace the content of a text file under the root folder, keeping its name and location. Requires ENABLE_WRITE_TOOLS.
+	 * @param {string} fileId - The ID of the text file
+	 * @param {string} content - New text content, at most 5 MB
+	 * @param {boolean} [dryRun] - Report what would happen without changing Drive
+	 * @return {string} JSON string containing {action: string, dryRun: boolean, item: {id, name, mimeType, isFolder, path, modifiedTime?, size?}}
+	 */
+	async updateFileContent(fileId: string, content: string, dryRun?: boolean): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			await ensureInRoot(this.env, fileId, 'file ID');
+			console.log('Updating file content:', fileId, dryRun ? '(dry run)' : '');
+			return JSON.stringify(await updateFileContent(this.env, fileId, content, { dryRun }));
+		});
+	}
+
+	/**
+	 * Rename a file or folder under the root folder. Requires ENABLE_WRITE_TOOLS.
+	 * @param {string} itemId - The ID of the file or folder
+	 * @param {string} newName - New name
+	 * @param {boolean} [dryRun] - Report what would happen without changing Drive
+	 * @return {string} JSON string containing {action: string, dryRun: boolean, item: {id, name, mimeType, isFolder, path, modifiedTime?, size?}, previousPath: string}
+	 */
+	async renameItem(itemId: string, newName: string, dryRun?: boolean): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			await ensureInRoot(this.env, itemId, 'item ID');
+			console.log('Renaming item:', itemId, 'to', newName, dryRun ? '(dry run)' : '');
+			return JSON.stringify(await renameItem(this.env, itemId, newName, { dryRun }));
+		});
+	}
+
+	/**
+	 * Move a file or folder to another folder under the root folder. Requires ENABLE_WRITE_TOOLS.
+	 * @param {string} itemId - The ID of the file or folder
+	 * @param {string} newParentId - The ID of the destination folder
+	 * @param {boolean} [dryRun] - Report what would happen without changing Drive
+	 * @return {string} JSON string containing {action: string, dryRun: boolean, item: {id, name, mimeType, isFolder, path, modifiedTime?, size?}, previousPath: string}
+	 */
+	async moveItem(itemId: string, newParentId: string, dryRun?: boolean): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			await ensureInRoot(this.env, itemId, 'item ID');
+			await ensureInRoot(this.env, newParentId, 'folder ID');
+			console.log('Moving item:', itemId, 'to', newParentId, dryRun ? '(dry run)' : '');
+			return JSON.stringify(await moveItem(this.env, itemId, newParentId, { dryRun }));
+		});
+	}
+
+	/**
+	 * Move a file or folder under the root folder to the Drive trash, where it can be restored for 30 days. Requires ENABLE_WRITE_TOOLS.
+	 * @param {string} itemId - The ID of the file or folder
+	 * @param {boolean} [dryRun] - Report what would happen without changing Drive
+	 * @return {string} JSON string containing {action: string, dryRun: boolean, item: {id, name, mimeType, isFolder, path, modifiedTime?, size?}, previousPath: string}
+	 */
+	async trashItem(itemId: string, dryRun?: boolean): Promise<string> {
+		return respond(async () => {
+			initializeEnv(this.env);
+			await ensureInRoot(this.env, itemId, 'item ID');
+			console.log('Trashing item:', itemId, dryRun ? '(dry run)' : '');
+			return JSON.stringify(await trashItem(this.env, itemId, { dryRun }));
+		});
 	}
 }
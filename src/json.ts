@@ -0,0 +1,489 @@
+export type JsonType = 'null' | 'boolean' | 'number' | 'string' | 'array' | 'object';
+
+export interface JsonPathSchema {
+	path: string;
+	types: JsonType[];
+	count: number;
+	arrayLength?: { min: number; max: number };
+	/** Set when only the first items of a long array were inspected */
+	sampledItems?: number;
+	samples?: Array<string | number | boolean | null>;
+}
+
+export interface JsonSchemaSummary {
+	rootType: JsonType;
+	paths: JsonPathSchema[];
+	truncated: boolean;
+}
+
+export interface JsonSchemaOptions {
+	maxPaths?: number;
+	maxSamples?: number;
+	maxArrayItems?: number;
+	maxDepth?: number;
+}
+
+export interface JsonQueryOptions {
+	/** Maximum number of matches to return */
+	limit?: number;
+	/** Maximum number of items kept from each array inside a returned value */
+	maxArrayItems?: number;
+}
+
+export interface JsonQueryResult {
+	matches: Array<{ path: string; value: unknown }>;
+	matchCount: number;
+	truncated: boolean;
+	truncatedArrays: Array<{ path: string; length: number; kept: number }>;
+}
+
+type Selector =
+	| { type: 'name'; name: string }
+	| { type: 'wildcard' }
+	| { type: 'index'; index: number }
+	| { type: 'slice'; start?: number; end?: number; step?: number }
+	| { type: 'filter'; expression: string };
+
+interface Segment {
+	descendant: boolean;
+	selectors: Selector[];
+}
+
+interface JsonNode {
+	path: string;
+	value: unknown;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+const MAX_SAMPLE_LENGTH = 80;
+const MAX_INTERMEDIATE_NODES = 100000;
+const MAX_FILTER_REGEX_LENGTH = 200;
+/** A group that contains a quantifier and is quantified itself, e.g. (a+)+, which can backtrack exponentially */
+const NESTED_QUANTIFIER = /\((?:\?[:=!]|\?<[=!]?)?[^()]*[*+}][^()]*\)[*+{]/;
+
+function jsonType(value: unknown): JsonType {
+	if (value === null) {
+		return 'null';
+	}
+	if (Array.isArray(value)) {
+		return 'array';
+	}
+	const type = typeof value;
+	return type === 'boolean' || type === 'number' || type === 'string' ? type : 'object';
+}
+
+function childPath(path: string, key: string | number): string {
+	if (typeof key === 'number') {
+		return `${path}[${key}]`;
+	}
+	return IDENTIFIER_PATTERN.test(key) ? `${path}.${key}` : `${path}['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+}
+
+/**
+ * Describe the structure of a JSON value as a list of key paths with their types, array lengths and sample values
+ * @param value - Parsed JSON value
+ * @param options - Limits on paths, samples, inspected array items and depth
+ * @returns JsonSchemaSummary - One entry per distinct path, with array items collapsed to [*]
+ */
+export function inferJsonSchema(value: unknown, options: JsonSchemaOptions = {}): JsonSchemaSummary {
+	const maxPaths = options.maxPaths ?? 200;
+	const maxSamples = options.maxSamples ?? 3;
+	const maxArrayItems = options.maxArrayItems ?? 100;
+	const maxDepth = options.maxDepth ?? 32;
+	const entries = new Map<string, JsonPathSchema & { typeSet: Set<JsonType> }>();
+	let truncated = false;
+
+	const visit = (current: unknown, path: string, depth: number) => {
+		let entry = entries.get(path);
+		if (!entry) {
+			if (entries.size >= maxPaths) {
+				truncated = true;
+				return;
+			}
+			entry = { path, types: [], typeSet: new Set(), count: 0 };
+			entries.set(path, entry);
+		}
+
+		const type = jsonType(current);
+		entry.typeSet.add(type);
+		entry.count++;
+
+		if (type === 'array') {
+			const items = current as unknown[];
+			entry.arrayLength = {
+				min: Math.min(entry.arrayLength?.min ?? items.length, items.length),
+				max: Math.max(entry.arrayLength?.max ?? items.length, items.length),
+			};
+			if (items.length > maxArrayItems) {
+				entry.sampledItems = maxArrayItems;
+			}
+			if (depth < maxDepth) {
+				items.slice(0, maxArrayItems).forEach((item) => visit(item, `${path}[*]`, depth + 1));
+			}
+		} else if (type === 'object') {
+			if (depth < maxDepth) {
+				Object.entries(current as Record<string, unknown>).forEach(([key, child]) => visit(child, childPath(path, key), depth + 1));
+			}
+		} else {
+			const sample =
+				typeof current === 'string' && current.length > MAX_SAMPLE_LENGTH ? `${current.slice(0, MAX_SAMPLE_LENGTH)}...` : current;
+			entry.samples = entry.samples || [];
+			if (entry.samples.length < maxSamples && !entry.samples.includes(sample as string | number | boolean | null)) {
+				entry.samples.push(sample as string | number | boolean | null);
+			}
+		}
+	};
+
+	visit(value, '$', 0);
+
+	return {
+		rootType: jsonType(value),
+		paths: [...entries.values()].map(({ typeSet, ...entry }) => ({ ...entry, types: [...typeSet] })),
+		truncated,
+	};
+}
+
+function splitOutside(text: string, separator: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let quote: string | undefined;
+	let start = 0;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quote) {
+			if (char === '\\') {
+				i++;
+			} else if (char === quote) {
+				quote = undefined;
+			}
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === '(' || char === '[') {
+			depth++;
+		} else if (char === ')' || char === ']') {
+			depth--;
+		} else if (depth === 0 && text.startsWith(separator, i)) {
+			parts.push(text.slice(start, i));
+			start = i + separator.length;
+			i += separator.length - 1;
+		}
+	}
+
+	parts.push(text.slice(start));
+	return parts;
+}
+
+function unquote(text: string): string | undefined {
+	const match = text.match(/^(['"])([\s\S]*)\1$/);
+	return match ? match[2].replace(/\\(.)/g, '$1') : undefined;
+}
+
+function parseBracket(content: string): Selector[] {
+	const trimmed = content.trim();
+	if (trimmed.startsWith('?')) {
+		const expression = trimmed.slice(1).trim();
+		return [{ type: 'filter', expression: expression.startsWith('(') && expression.endsWith(')') ? expression.slice(1, -1) : expression }];
+	}
+
+	return splitOutside(trimmed, ',').map((part): Selector => {
+		const item = part.trim();
+		const quoted = unquote(item);
+		if (quoted !== undefined) {
+			return { type: 'name', name: quoted };
+		}
+		if (item === '*') {
+			return { type: 'wildcard' };
+		}
+		if (/^-?\d+$/.test(item)) {
+			return { type: 'index', index: Number(item) };
+		}
+		const slice = item.match(/^(-?\d+)?\s*:\s*(-?\d+)?\s*(?::\s*(-?\d+)?)?$/);
+		if (slice) {
+			const [, start, end, step] = slice;
+			return {
+				type: 'slice',
+				start: start ? Number(start) : undefined,
+				end: end ? Number(end) : undefined,
+				step: step ? Number(step) : undefined,
+			};
+		}
+		if (item.length > 0) {
+			return { type: 'name', name: item };
+		}
+		throw new Error(`Invalid selector: [${content}]`);
+	});
+}
+
+/**
+ * Parse a JSONPath expression into segments
+ * Supports $, .key, ['key'], [0], [-1], [*], .*, [a,b], [start:end:step], ..key and [?(@.key > 1)] filters
+ */
+function parseJsonPath(path: string): Segment[] {
+	let text = path.trim();
+	if (text.startsWith('$')) {
+		text = text.slice(1);
+	} else if (text.length > 0 && !text.startsWith('.') && !text.startsWith('[')) {
+		text = `.${text}`;
+	}
+
+	const segments: Segment[] = [];
+	let i = 0;
+	while (i < text.length) {
+		let descendant = false;
+		if (text.startsWith('..', i)) {
+			descendant = true;
+			i += 2;
+		} else if (text[i] === '.') {
+			i += 1;
+		}
+
+		if (text[i] === '[') {
+			let depth = 0;
+			let quote: string | undefined;
+			let end = i;
+			for (; end < text.length; end++) {
+				const char = text[end];
+				if (quote) {
+					if (char === '\\') {
+						end++;
+					} else if (char === quote) {
+						quote = undefined;
+					}
+				} else if (char === '"' || char === "'") {
+					quote = char;
+				} else if (char === '[') {
+					depth++;
+				} else if (char === ']' && --depth === 0) {
+					break;
+				}
+			}
+			if (end >= text.length) {
+				throw new Error(`Unclosed bracket in path: ${path}`);
+			}
+			segments.push({ descendant, selectors: parseBracket(text.slice(i + 1, end)) });
+			i = end + 1;
+			continue;
+		}
+
+		const name = text.slice(i).match(/^(\*|[^.[\s]+)/)?.[0];
+		if (!name) {
+			throw new Error(`Invalid path: ${path}`);
+		}
+		segments.push({ descendant, selectors: [name === '*' ? { type: 'wildcard' } : { type: 'name', name }] });
+		i += name.length;
+	}
+
+	return segments;
+}
+
+function children(node: JsonNode): JsonNode[] {
+	if (Array.isArray(node.value)) {
+		return node.value.map((value, index) => ({ path: childPath(node.path, index), value }));
+	}
+	if (node.value !== null && typeof node.value === 'object') {
+		return Object.entries(node.value as Record<string, unknown>).map(([key, value]) => ({ path: childPath(node.path, key), value }));
+	}
+	return [];
+}
+
+function descendants(node: JsonNode, into: JsonNode[]): void {
+	into.push(node);
+	if (into.length > MAX_INTERMEDIATE_NODES) {
+		throw new Error('Path matches too many values; narrow the query');
+	}
+	children(node).forEach((child) => descendants(child, into));
+}
+
+function parseLiteral(text: string): unknown {
+	const trimmed = text.trim();
+	const quoted = unquote(trimmed);
+	if (quoted !== undefined) {
+		return quoted;
+	}
+	try {
+		return JSON.parse(trimmed);
+	} catch {
+		throw new Error(`Invalid value in filter: ${trimmed}`);
+	}
+}
+
+function filterRegex(source: string, flags: string, condition: string): RegExp {
+	if (source.length > MAX_FILTER_REGEX_LENGTH) {
+		throw new Error(`Regex is longer than ${MAX_FILTER_REGEX_LENGTH} characters in filter: ${condition}`);
+	}
+	if (NESTED_QUANTIFIER.test(source)) {
+		throw new Error(`Regex repeats a group that contains a repeat, which can run for a very long time, in filter: ${condition}`);
+	}
+	return new RegExp(source, flags);
+}
+
+function evaluateCondition(condition: string, item: unknown): boolean {
+	const trimmed = condition.trim();
+	if (trimmed.startsWith('!')) {
+		return !evaluateCondition(trimmed.slice(1), item);
+	}
+	if (trimmed.startsWith('(') && trimmed.endsWith(')')) {
+		return evaluateFilter(trimmed.slice(1, -1), item);
+	}
+
+	const match = trimmed.match(/^@((?:\.[\w$]+|\[[^\]]*\])*)\s*(?:(==|!=|<=|>=|<|>|=~)\s*([\s\S]+))?$/);
+	if (!match) {
+		throw new Error(`Unsupported filter: ${trimmed}`);
+	}
+
+	const [, relativePath, operator, operand] = match;
+	const found = relativePath
+		? evaluateSegments(parseJsonPath(`$${relativePath}`), [{ path: '$', value: item }])
+		: [{ path: '$', value: item }];
+	if (!operator) {
+		return found.length > 0 && found[0].value !== undefined;
+	}
+	if (found.length === 0) {
+		return operator === '!=';
+	}
+
+	const left = found[0].value;
+	if (operator === '=~') {
+		const regex = operand.trim().match(/^\/([\s\S]*)\/([a-z]*)$/);
+		if (!regex) {
+			throw new Error(`Expected a /regex/ after =~ in filter: ${trimmed}`);
+		}
+		return typeof left === 'string' && filterRegex(regex[1], regex[2], trimmed).test(left);
+	}
+
+	const right = parseLiteral(operand);
+	switch (operator) {
+		case '==':
+			return left === right;
+		case '!=':
+			return left !== right;
+		default: {
+			if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+				return false;
+			}
+			const l = left as number | string;
+			const r = right as number | string;
+			return operator === '<' ? l < r : operator === '<=' ? l <= r : operator === '>' ? l > r : l >= r;
+		}
+	}
+}
+
+function evaluateFilter(expression: string, item: unknown): boolean {
+	return splitOutside(expression, '||').some((clause) =>
+		splitOutside(clause, '&&').every((condition) => evaluateCondition(condition, item))
+	);
+}
+
+function applySelector(node: JsonNode, selector: Selector): JsonNode[] {
+	const { value } = node;
+	switch (selector.type) {
+		case 'name':
+			return value !== null &&
+				typeof value === 'object' &&
+				!Array.isArray(value) &&
+				Object.prototype.hasOwnProperty.call(value, selector.name)
+				? [{ path: childPath(node.path, selector.name), value: (value as Record<string, unknown>)[selector.name] }]
+				: [];
+		case 'wildcard':
+			return children(node);
+		case 'index': {
+			if (!Array.isArray(value)) {
+				return [];
+			}
+			const index = selector.index < 0 ? value.length + selector.index : selector.index;
+			return index >= 0 && index < value.length ? [{ path: childPath(node.path, index), value: value[index] }] : [];
+		}
+		case 'slice': {
+			if (!Array.isArray(value)) {
+				return [];
+			}
+			const step = selector.step ?? 1;
+			if (step === 0) {
+				throw new Error('Slice step cannot be 0');
+			}
+			const clamp = (bound: number) => (bound < 0 ? Math.max(0, value.length + bound) : Math.min(bound, value.length));
+			const result: JsonNode[] = [];
+			if (step > 0) {
+				for (let i = clamp(selector.start ?? 0); i < clamp(selector.end ?? value.length); i += step) {
+					result.push({ path: childPath(node.path, i), value: value[i] });
+				}
+			} else {
+				const start = selector.start === undefined ? value.length - 1 : Math.min(clamp(selector.start), value.length - 1);
+				const end = selector.end === undefined ? -1 : clamp(selector.end);
+				for (let i = start; i > end; i += step) {
+					result.push({ path: childPath(node.path, i), value: value[i] });
+				}
+			}
+			return result;
+		}
+		case 'filter':
+			return children(node).filter((child) => evaluateFilter(selector.expression, child.value));
+	}
+}
+
+function evaluateSegments(segments: Segment[], start: JsonNode[]): JsonNode[] {
+	let nodes = start;
+	for (const segment of segments) {
+		let candidates = nodes;
+		if (segment.descendant) {
+			candidates = [];
+			nodes.forEach((node) => descendants(node, candidates));
+		}
+
+		nodes = [];
+		for (const node of candidates) {
+			for (const selector of segment.selectors) {
+				// Pushed one at a time: spreading a large array into push overflows the stack
+				for (const match of applySelector(node, selector)) {
+					if (nodes.length >= MAX_INTERMEDIATE_NODES) {
+						throw new Error('Path matches too many values; narrow the query');
+					}
+					nodes.push(match);
+				}
+			}
+		}
+	}
+	return nodes;
+}
+
+function truncateArrays(value: unknown, path: string, maxItems: number, truncated: JsonQueryResult['truncatedArrays']): unknown {
+	if (Array.isArray(value)) {
+		if (value.length > maxItems) {
+			truncated.push({ path, length: value.length, kept: maxItems });
+		}
+		return value.slice(0, maxItems).map((item, index) => truncateArrays(item, childPath(path, index), maxItems, truncated));
+	}
+	if (value !== null && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value as Record<string, unknown>).map(([key, child]) => [
+				key,
+				truncateArrays(child, childPath(path, key), maxItems, truncated),
+			])
+		);
+	}
+	return value;
+}
+
+/**
+ * Select values from a JSON document with a JSONPath expression
+ * @param value - Parsed JSON value
+ * @param path - JSONPath expression, e.g. "$.students[?(@.score >= 80)].name"
+ * @param options - Match limit and the number of items kept from each array in returned values
+ * @returns JsonQueryResult - Matches with their normalised paths, and which matches or arrays were cut short
+ */
+export function queryJsonPath(value: unknown, path: string, options: JsonQueryOptions = {}): JsonQueryResult {
+	const limit = Math.max(1, Math.floor(options.limit ?? 100));
+	const maxArrayItems = Math.max(1, Math.floor(options.maxArrayItems ?? 50));
+	const nodes = evaluateSegments(parseJsonPath(path), [{ path: '$', value }]);
+	const truncatedArrays: JsonQueryResult['truncatedArrays'] = [];
+
+	return {
+		matches: nodes
+			.slice(0, limit)
+			.map((node) => ({ path: node.path, value: truncateArrays(node.value, node.path, maxArrayItems, truncatedArrays) })),
+		matchCount: nodes.length,
+		truncated: nodes.length > limit,
+		truncatedArrays,
+	};
+}
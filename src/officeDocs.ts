@@ -0,0 +1,525 @@
+import { unzipSync } from 'fflate';
+import { ToolError } from './errors';
+
+export type OfficeFiles = Record<string, string>;
+
+export interface OfficeProperties {
+	title?: string;
+	subject?: string;
+	author?: string;
+	application?: string;
+	created?: Date;
+	modified?: Date;
+}
+
+export interface SheetData {
+	name: string;
+	rows: string[][];
+	/** True when rows past MAX_SHEET_ROWS were left out */
+	truncated?: boolean;
+}
+
+export interface SlideData {
+	text: string;
+	notes: string;
+}
+
+export interface OfficeUnzipLimits {
+	/** Largest decompressed size of a single XML part */
+	maxPartBytes?: number;
+	/** Largest decompressed size of all XML parts together */
+	maxTotalBytes?: number;
+}
+
+/** Decompressed size caps, so a small zip cannot inflate into more than a Worker can hold */
+export const MAX_OFFICE_PART_BYTES = 20 * 1024 * 1024;
+export const MAX_OFFICE_TOTAL_BYTES = 50 * 1024 * 1024;
+
+interface XmlElement {
+	start: number;
+	end: number;
+	attributes: string;
+	body: string;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+const MAX_SHEET_COLUMNS = 1000;
+/** Row numbers come from the file, so a single row numbered 1048576 would otherwise become a million empty rows */
+export const MAX_SHEET_ROWS = 100000;
+
+function decodeXml(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+		if (name[0] === '#') {
+			const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+			return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+		}
+		return XML_ENTITIES[name] ?? entity;
+	});
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+	const match = attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+	return match ? decodeXml(match[2] ?? match[3]) : undefined;
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the outermost elements with the given tag, keeping nested elements of the same tag inside their parent
+ */
+function findElements(xml: string, tag: string): XmlElement[] {
+	const pattern = new RegExp(`<(/?)${escapeRegExp(tag)}(?=[\\s>/])([^>]*?)(/?)>`, 'g');
+	const elements: XmlElement[] = [];
+	let depth = 0;
+	let open: { start: number; bodyStart: number; attributes: string } | undefined;
+
+	for (const match of xml.matchAll(pattern)) {
+		const [full, closing, attributes, selfClosing] = match;
+		const index = match.index!;
+
+		if (closing) {
+			depth = Math.max(0, depth - 1);
+			if (depth === 0 && open) {
+				elements.push({ start: open.start, end: index + full.length, attributes: open.attributes, body: xml.slice(open.bodyStart, index) });
+				open = undefined;
+			}
+		} else if (selfClosing) {
+			if (depth === 0) {
+				elements.push({ start: index, end: index + full.length, attributes, body: '' });
+			}
+		} else {
+			if (depth === 0) {
+				open = { start: index, bodyStart: index + full.length, attributes };
+			}
+			depth++;
+		}
+	}
+
+	return elements;
+}
+
+function firstElement(xml: string, tag: string): XmlElement | undefined {
+	return findElements(xml, tag)[0];
+}
+
+function elementText(xml: string, tag: string): string | undefined {
+	const element = firstElement(xml, tag);
+	return element ? decodeXml(element.body).trim() || undefined : undefined;
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Resolve a relationship target against the folder of the part that owns the relationship
+ */
+function resolvePartPath(basePart: string, target: string): string {
+	if (target.startsWith('/')) {
+		return target.slice(1);
+	}
+	const parts = basePart.split('/').slice(0, -1);
+	for (const segment of target.split('/')) {
+		if (segment === '..') {
+			parts.pop();
+		} else if (segment !== '.' && segment !== '') {
+			parts.push(segment);
+		}
+	}
+	return parts.join('/');
+}
+
+function relationshipsPath(part: string): string {
+	const parts = part.split('/');
+	const name = parts.pop();
+	return [...parts, '_rels', `${name}.rels`].join('/');
+}
+
+/**
+ * Read the relationships of a package part
+ * @returns Map of relationship ID to target part path and relationship type
+ */
+function readRelationships(files: OfficeFiles, part: string): Map<string, { target: string; type: string }> {
+	const relationships = new Map<string, { target: string; type: string }>();
+	const xml = files[relationshipsPath(part)];
+	if (!xml) {
+		return relationships;
+	}
+
+	for (const element of findElements(xml, 'Relationship')) {
+		const id = attribute(element.attributes, 'Id');
+		const target = attribute(element.attributes, 'Target');
+		if (id && target && attribute(element.attributes, 'TargetMode') !== 'External') {
+			relationships.set(id, { target: resolvePartPath(part, target), type: attribute(element.attributes, 'Type') ?? '' });
+		}
+	}
+	return relationships;
+}
+
+/**
+ * Unzip an Office Open XML package, keeping only its XML parts
+ * @param fileData - Binary data of the .docx, .xlsx or .pptx file
+ * @param limits - Decompressed size caps, defaulting to MAX_OFFICE_PART_BYTES and MAX_OFFICE_TOTAL_BYTES
+ * @returns Object mapping part paths to their decoded XML
+ * @throws ToolError with code TOO_LARGE when a part, or all parts together, would decompress beyond the caps
+ */
+export function unzipOfficeFile(fileData: ArrayBuffer, limits: OfficeUnzipLimits = {}): OfficeFiles {
+	const maxPartBytes = limits.maxPartBytes ?? MAX_OFFICE_PART_BYTES;
+	const maxTotalBytes = limits.maxTotalBytes ?? MAX_OFFICE_TOTAL_BYTES;
+	let totalBytes = 0;
+	const entries = unzipSync(new Uint8Array(fileData), {
+		filter: (file) => {
+			if (!file.name.endsWith('.xml') && !file.name.endsWith('.rels')) {
+				return false;
+			}
+			if (file.originalSize > maxPartBytes) {
+				throw new ToolError(
+					'TOO_LARGE',
+					`Part ${file.name} decompresses to ${file.originalSize} bytes, above the limit of ${maxPartBytes}`
+				);
+			}
+			totalBytes += file.originalSize;
+			if (totalBytes > maxTotalBytes) {
+				throw new ToolError('TOO_LARGE', `Document decompresses to more than ${maxTotalBytes} bytes of XML`);
+			}
+			return true;
+		},
+	});
+	const decoder = new TextDecoder('utf-8');
+	const files: OfficeFiles = {};
+	for (const [name, data] of Object.entries(entries)) {
+		files[name] = decoder.decode(data);
+	}
+
+	if (!files['[Content_Types].xml']) {
+		throw new Error('File is not an Office Open XML package');
+	}
+	return files;
+}
+
+/**
+ * Read the document properties stored in docProps/core.xml and docProps/app.xml
+ * @param files - Unzipped package parts
+ * @returns OfficeProperties - Title, subject, author, application and dates when present
+ */
+export function readOfficeProperties(files: OfficeFiles): OfficeProperties {
+	const core = files['docProps/core.xml'] ?? '';
+	const app = files['docProps/app.xml'] ?? '';
+
+	return {
+		title: elementText(core, 'dc:title'),
+		subject: elementText(core, 'dc:subject'),
+		author: elementText(core, 'dc:creator'),
+		application: elementText(app, 'Application'),
+		created: parseDate(elementText(core, 'dcterms:created')),
+		modified: parseDate(elementText(core, 'dcterms:modified')),
+	};
+}
+
+/**
+ * Order paragraphs and tables as they appear, skipping paragraphs that belong to a table
+ */
+function blocksInOrder(xml: string, paragraphTag: string, tableTag: string): Array<{ kind: 'paragraph' | 'table'; element: XmlElement }> {
+	const tables = findElements(xml, tableTag);
+	const paragraphs = findElements(xml, paragraphTag).filter(
+		(paragraph) => !tables.some((table) => paragraph.start > table.start && paragraph.end <= table.end)
+	);
+
+	return [
+		...paragraphs.map((element) => ({ kind: 'paragraph' as const, element })),
+		...tables.map((element) => ({ kind: 'table' as const, element })),
+	].sort((a, b) => a.element.start - b.element.start);
+}
+
+function runText(xml: string, prefix: 'w' | 'a'): string {
+	const pattern = new RegExp(`<${prefix}:t(?:\\s[^>]*)?>([\\s\\S]*?)</${prefix}:t>|<${prefix}:(tab|br|cr)\\b[^>]*/>`, 'g');
+	let text = '';
+	for (const match of xml.matchAll(pattern)) {
+		if (match[1] !== undefined) {
+			text += decodeXml(match[1]);
+		} else {
+			text += match[2] === 'tab' ? '\t' : '\n';
+		}
+	}
+	return text;
+}
+
+function toMarkdownTable(rows: string[][]): string {
+	const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+	const format = (row: string[]) =>
+		`| ${Array.from({ length: width }, (_, index) => (row[index] ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')).join(' | ')} |`;
+
+	return [format(rows[0]), `| ${Array.from({ length: width }, () => '---').join(' | ')} |`, ...rows.slice(1).map(format)].join('\n');
+}
+
+function docxParagraph(paragraph: XmlElement): string {
+	const properties = firstElement(paragraph.body, 'w:pPr');
+	const content = properties ? paragraph.body.slice(0, properties.start) + paragraph.body.slice(properties.end) : paragraph.body;
+	const text = runText(content, 'w').trim();
+	if (!text || !properties) {
+		return text;
+	}
+
+	const style = findElements(properties.body, 'w:pStyle').map((element) => attribute(element.attributes, 'w:val') ?? '')[0] ?? '';
+	const outline = findElements(properties.body, 'w:outlineLvl').map((element) => Number(attribute(element.attributes, 'w:val')))[0];
+	let headingLevel = Number(style.match(/^heading\s*(\d)$/i)?.[1] ?? 0);
+	if (/^title$/i.test(style)) {
+		headingLevel = 1;
+	} else if (!headingLevel && Number.isFinite(outline) && outline < 9) {
+		// Outline level 9 marks body text
+		headingLevel = outline + 1;
+	}
+	if (headingLevel > 0) {
+		return `${'#'.repeat(Math.min(headingLevel, 6))} ${text.replace(/\s*\n\s*/g, ' ')}`;
+	}
+
+	const listItem = firstElement(properties.body, 'w:numPr');
+	if (listItem) {
+		const level = Number(findElements(listItem.body, 'w:ilvl').map((element) => attribute(element.attributes, 'w:val'))[0] ?? 0);
+		return `${'  '.repeat(Number.isFinite(level) ? level : 0)}- ${text}`;
+	}
+
+	return text;
+}
+
+function docxTable(table: XmlElement): string {
+	const rows = findElements(table.body, 'w:tr')
+		.map((row) =>
+			findElements(row.body, 'w:tc').map((cell) =>
+				findElements(cell.body, 'w:p')
+					.map((paragraph) => runText(paragraph.body.replace(/<w:pPr[\s\S]*?<\/w:pPr>/g, ''), 'w').trim())
+					.filter((text) => text.length > 0)
+					.join(' ')
+			)
+		)
+		.filter((row) => row.length > 0);
+
+	return rows.length > 0 ? toMarkdownTable(rows) : '';
+}
+
+/**
+ * Extract the text of a Word document, keeping headings as Markdown headings and tables as Markdown tables
+ * @param files - Unzipped package parts
+ * @returns string - Document text
+ */
+export function readDocxText(files: OfficeFiles): string {
+	const document = files['word/document.xml'];
+	if (!document) {
+		throw new Error('Missing word/document.xml');
+	}
+	const body = firstElement(document, 'w:body')?.body ?? document;
+
+	return blocksInOrder(body, 'w:p', 'w:tbl')
+		.map(({ kind, element }) => (kind === 'table' ? docxTable(element) : docxParagraph(element)))
+		.filter((block) => block.length > 0)
+		.join('\n\n');
+}
+
+function columnIndex(reference: string): number {
+	const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+	let index = 0;
+	for (const letter of letters) {
+		index = index * 26 + (letter.charCodeAt(0) - 64);
+	}
+	return index - 1;
+}
+
+function readSharedStrings(files: OfficeFiles, part: string | undefined): string[] {
+	const xml = part ? files[part] : undefined;
+	if (!xml) {
+		return [];
+	}
+	return findElements(xml, 'si').map((item) =>
+		findElements(item.body.replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 't')
+			.map((text) => decodeXml(text.body))
+			.join('')
+	);
+}
+
+function isDateFormatCode(code: string): boolean {
+	const unquoted = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+	return /[dmyhs]/i.test(unquoted) && !/^general$/i.test(unquoted.trim());
+}
+
+/**
+ * Work out which cell style indexes format their numbers as dates
+ */
+function readDateStyles(files: OfficeFiles, part: string | undefined): Set<number> {
+	const xml = part ? files[part] : undefined;
+	const dateStyles = new Set<number>();
+	if (!xml) {
+		return dateStyles;
+	}
+
+	const customDateFormats = new Set(
+		findElements(xml, 'numFmt')
+			.filter((format) => isDateFormatCode(attribute(format.attributes, 'formatCode') ?? ''))
+			.map((format) => Number(attribute(format.attributes, 'numFmtId')))
+	);
+
+	const cellFormats = firstElement(xml, 'cellXfs');
+	findElements(cellFormats?.body ?? '', 'xf').forEach((format, index) => {
+		const formatId = Number(attribute(format.attributes, 'numFmtId') ?? 0);
+		if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+			dateStyles.add(index);
+		}
+	});
+	return dateStyles;
+}
+
+function serialToDate(serial: number, date1904: boolean): string {
+	const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+	const date = new Date(epoch + Math.round(serial * 86400) * 1000);
+	const iso = date.toISOString();
+	return serial % 1 === 0 ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+}
+
+function cellValue(cell: XmlElement, sharedStrings: string[], dateStyles: Set<number>, date1904: boolean): string {
+	const type = attribute(cell.attributes, 't') ?? 'n';
+	if (type === 'inlineStr') {
+		return findElements(cell.body, 't')
+			.map((text) => decodeXml(text.body))
+			.join('');
+	}
+
+	const raw = decodeXml(firstElement(cell.body, 'v')?.body ?? '');
+	switch (type) {
+		case 's':
+			return sharedStrings[Number(raw)] ?? '';
+		case 'b':
+			return raw === '1' ? 'TRUE' : 'FALSE';
+		case 'n': {
+			const style = Number(attribute(cell.attributes, 's') ?? -1);
+			const value = Number(raw);
+			return raw !== '' && dateStyles.has(style) && Number.isFinite(value) ? serialToDate(value, date1904) : raw;
+		}
+		default:
+			return raw;
+	}
+}
+
+/**
+ * Read every worksheet of an Excel workbook as rows of cell text, in workbook order
+ * @param files - Unzipped package parts
+ * @returns Array of sheets with their names and rows
+ */
+export function readXlsxSheets(files: OfficeFiles): SheetData[] {
+	const workbookPart = 'xl/workbook.xml';
+	const workbook = files[workbookPart];
+	if (!workbook) {
+		throw new Error('Missing xl/workbook.xml');
+	}
+
+	const sheetRelationships = readRelationships(files, workbookPart);
+	const relationships = [...sheetRelationships.values()];
+	const partOfType = (type: string) => relationships.find((relationship) => relationship.type.endsWith(`/${type}`))?.target;
+	const sharedStrings = readSharedStrings(files, partOfType('sharedStrings'));
+	const dateStyles = readDateStyles(files, partOfType('styles'));
+	const workbookProperties = firstElement(workbook, 'workbookPr');
+	const date1904 = /^(1|true)$/.test(attribute(workbookProperties?.attributes ?? '', 'date1904') ?? '');
+
+	return findElements(workbook, 'sheet').map((sheet) => {
+		const name = attribute(sheet.attributes, 'name') ?? '';
+		const part = sheetRelationships.get(attribute(sheet.attributes, 'r:id') ?? '')?.target;
+		const xml = part ? files[part] : undefined;
+		if (!xml) {
+			return { name, rows: [] };
+		}
+
+		const rows: string[][] = [];
+		let nextRow = 0;
+		let truncated = false;
+		for (const row of findElements(firstElement(xml, 'sheetData')?.body ?? '', 'row')) {
+			const rowNumber = Number(attribute(row.attributes, 'r'));
+			const rowIndex = Number.isFinite(rowNumber) && rowNumber > 0 ? rowNumber - 1 : nextRow;
+			nextRow = rowIndex + 1;
+			if (rowIndex >= MAX_SHEET_ROWS) {
+				truncated = true;
+				continue;
+			}
+
+			const values: string[] = [];
+			let nextColumn = 0;
+			for (const cell of findElements(row.body, 'c')) {
+				const reference = attribute(cell.attributes, 'r');
+				const column = reference ? columnIndex(reference) : nextColumn;
+				nextColumn = column + 1;
+				if (column < 0 || column >= MAX_SHEET_COLUMNS) {
+					continue;
+				}
+				values[column] = cellValue(cell, sharedStrings, dateStyles, date1904);
+			}
+			rows[rowIndex] = Array.from(values, (value) => value ?? '');
+		}
+
+		const filled = Array.from(rows, (row) => row ?? []);
+		while (filled.length > 0 && filled[filled.length - 1].every((value) => value === '')) {
+			filled.pop();
+		}
+		return truncated ? { name, rows: filled, truncated } : { name, rows: filled };
+	});
+}
+
+function pptxText(xml: string): string {
+	return blocksInOrder(xml, 'a:p', 'a:tbl')
+		.map(({ kind, element }) => {
+			if (kind === 'paragraph') {
+				return runText(element.body, 'a').trim();
+			}
+			return findElements(element.body, 'a:tr')
+				.map((row) =>
+					findElements(row.body, 'a:tc')
+						.map((cell) =>
+							findElements(cell.body, 'a:p')
+								.map((paragraph) => runText(paragraph.body, 'a').trim())
+								.join(' ')
+								.trim()
+						)
+						.join(' | ')
+				)
+				.join('\n');
+		})
+		.filter((text) => text.length > 0)
+		.join('\n');
+}
+
+/**
+ * Read the text and speaker notes of every slide of a PowerPoint deck, in presentation order
+ * @param files - Unzipped package parts
+ * @returns Array of slides with their text and notes
+ */
+export function readPptxSlides(files: OfficeFiles): SlideData[] {
+	const presentationPart = 'ppt/presentation.xml';
+	const presentation = files[presentationPart];
+	if (!presentation) {
+		throw new Error('Missing ppt/presentation.xml');
+	}
+
+	const relationships = readRelationships(files, presentationPart);
+	const slideList = firstElement(presentation, 'p:sldIdLst');
+
+	return findElements(slideList?.body ?? '', 'p:sldId')
+		.map((slide) => relationships.get(attribute(slide.attributes, 'r:id') ?? '')?.target)
+		.filter((part): part is string => Boolean(part && files[part]))
+		.map((part) => {
+			const notesPart = [...readRelationships(files, part).values()].find((relationship) =>
+				relationship.type.endsWith('/notesSlide')
+			)?.target;
+			const notesXml = notesPart ? (files[notesPart] ?? '') : '';
+			// Notes pages repeat the slide number in a placeholder shape, which is not part of the notes
+			const notes = findElements(notesXml, 'p:sp')
+				.filter((shape) => !/<p:ph\b[^>]*type="(sldNum|sldImg|hdr|ftr|dt)"/.test(shape.body))
+				.map((shape) => pptxText(shape.body))
+				.filter((text) => text.length > 0)
+				.join('\n');
+
+			return { text: pptxText(files[part]), notes };
+		});
+}
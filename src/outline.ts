@@ -0,0 +1,254 @@
+export interface OutlineSection {
+	title: string;
+	level: number;
+	/** Titles from the top-level heading down to this one */
+	path: string[];
+	startLine: number;
+	endLine: number;
+	children: OutlineSection[];
+}
+
+export interface OutlineCodeBlock {
+	language?: string;
+	startLine: number;
+	endLine: number;
+	section?: string;
+}
+
+export interface OutlineLink {
+	text: string;
+	url: string;
+	line: number;
+	section?: string;
+}
+
+export interface OutlineTable {
+	columns: string[];
+	rowCount: number;
+	startLine: number;
+	endLine: number;
+	section?: string;
+}
+
+export interface DocumentOutline {
+	sections: OutlineSection[];
+	codeBlocks: OutlineCodeBlock[];
+	links: OutlineLink[];
+	tables: OutlineTable[];
+}
+
+export interface SectionContent {
+	title: string;
+	level: number;
+	path: string[];
+	startLine: number;
+	endLine: number;
+	text: string;
+	subsections: string[];
+}
+
+export const HEADING_PATH_SEPARATOR = ' > ';
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const INLINE_LINK = /(?<!!)\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+["'(][^)]*)?\)/g;
+const AUTOLINK = /<(https?:\/\/[^>\s]+)>/g;
+const REFERENCE_LINK = /^ {0,3}\[([^\]]+)\]:\s*<?(\S+?)>?(?:\s+.*)?$/;
+const MAX_OUTLINE_ITEMS = 500;
+
+function cleanHeading(text: string): string {
+	return text
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/[*_`]/g, '')
+		.trim();
+}
+
+function splitTableRow(line: string): string[] {
+	return line
+		.trim()
+		.replace(/^\|/, '')
+		.replace(/\|$/, '')
+		.split(/(?<!\\)\|/)
+		.map((cell) => cell.trim());
+}
+
+/**
+ * Parse Markdown into a heading tree with line spans, plus the code blocks, links and tables it contains
+ * Works on any text whose headings are Markdown headings, including exported Google Docs and parsed DOCX files
+ * @param content - Markdown text
+ * @returns DocumentOutline - Section tree and the located code blocks, links and tables
+ */
+export function parseOutline(content: string): DocumentOutline {
+	const lines = content.split('\n');
+	const headings: Array<{ title: string; level: number; line: number }> = [];
+	const codeBlocks: OutlineCodeBlock[] = [];
+	const links: OutlineLink[] = [];
+	const tables: OutlineTable[] = [];
+	let fence: { marker: string; language?: string; startLine: number } | undefined;
+
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index].replace(/\r$/, '');
+		const lineNumber = index + 1;
+
+		if (fence) {
+			const closing = line.match(FENCE);
+			if (closing && closing[1][0] === fence.marker[0] && closing[1].length >= fence.marker.length && !closing[2]) {
+				codeBlocks.push({ language: fence.language, startLine: fence.startLine, endLine: lineNumber });
+				fence = undefined;
+			}
+			continue;
+		}
+
+		const opening = line.match(FENCE);
+		if (opening) {
+			fence = { marker: opening[1], language: opening[2] || undefined, startLine: lineNumber };
+			continue;
+		}
+
+		const atx = line.match(ATX_HEADING);
+		if (atx) {
+			headings.push({ title: cleanHeading(atx[2] ?? ''), level: atx[1].length, line: lineNumber });
+			continue;
+		}
+
+		const next = lines[index + 1]?.replace(/\r$/, '');
+		const underline = next?.match(SETEXT_UNDERLINE);
+		if (underline && line.trim().length > 0 && !line.includes('|') && !/^\s*([-*+]|\d+[.)])\s/.test(line)) {
+			headings.push({ title: cleanHeading(line), level: underline[1][0] === '=' ? 1 : 2, line: lineNumber });
+			index++;
+			continue;
+		}
+
+		if (line.includes('|') && next !== undefined && TABLE_DELIMITER.test(next) && next.includes('|')) {
+			let end = index + 2;
+			while (end < lines.length && lines[end].includes('|') && lines[end].trim().length > 0) {
+				end++;
+			}
+			tables.push({ columns: splitTableRow(line), rowCount: end - index - 2, startLine: lineNumber, endLine: end });
+			index = end - 1;
+			continue;
+		}
+
+		const reference = line.match(REFERENCE_LINK);
+		if (reference) {
+			links.push({ text: reference[1], url: reference[2], line: lineNumber });
+			continue;
+		}
+		for (const match of line.matchAll(INLINE_LINK)) {
+			links.push({ text: match[1].trim(), url: match[2], line: lineNumber });
+		}
+		for (const match of line.matchAll(AUTOLINK)) {
+			links.push({ text: match[1], url: match[1], line: lineNumber });
+		}
+	}
+
+	if (fence) {
+		codeBlocks.push({ language: fence.language, startLine: fence.startLine, endLine: lines.length });
+	}
+
+	const sections = buildSectionTree(headings, lines.length);
+	const flat = flattenSections(sections);
+	const sectionAt = (line: number): string | undefined => {
+		let found: OutlineSection | undefined;
+		for (const section of flat) {
+			if (section.startLine <= line && line <= section.endLine) {
+				found = section;
+			}
+		}
+		return found?.path.join(HEADING_PATH_SEPARATOR);
+	};
+
+	return {
+		sections,
+		codeBlocks: codeBlocks.slice(0, MAX_OUTLINE_ITEMS).map((block) => ({ ...block, section: sectionAt(block.startLine) })),
+		links: links.slice(0, MAX_OUTLINE_ITEMS).map((link) => ({ ...link, section: sectionAt(link.line) })),
+		tables: tables.slice(0, MAX_OUTLINE_ITEMS).map((table) => ({ ...table, section: sectionAt(table.startLine) })),
+	};
+}
+
+function buildSectionTree(headings: Array<{ title: string; level: number; line: number }>, lineCount: number): OutlineSection[] {
+	const roots: OutlineSection[] = [];
+	const stack: OutlineSection[] = [];
+
+	headings.forEach((heading, index) => {
+		// A section runs until the next heading at the same or a higher level
+		const next = headings.slice(index + 1).find((candidate) => candidate.level <= heading.level);
+		while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+			stack.pop();
+		}
+
+		const section: OutlineSection = {
+			title: heading.title,
+			level: heading.level,
+			path: [...stack.map((parent) => parent.title), heading.title],
+			startLine: heading.line,
+			endLine: next ? next.line - 1 : lineCount,
+			children: [],
+		};
+
+		(stack.length > 0 ? stack[stack.length - 1].children : roots).push(section);
+		stack.push(section);
+	});
+
+	return roots;
+}
+
+/**
+ * List every section of an outline in document order
+ * @param sections - Section tree from parseOutline
+ * @returns Array of sections, parents before their children
+ */
+export function flattenSections(sections: OutlineSection[]): OutlineSection[] {
+	return sections.flatMap((section) => [section, ...flattenSections(section.children)]);
+}
+
+function normalizeTitle(title: string): string {
+	return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Find a section by its heading path. The path may skip leading levels, so "Assessment" matches "Week 3 > Assessment".
+ * @param sections - Section tree from parseOutline
+ * @param headingPath - Heading titles joined with " > " (or "/"), or an array of titles, matched case-insensitively
+ * @returns OutlineSection - The first matching section, or undefined
+ */
+export function findSection(sections: OutlineSection[], headingPath: string | string[]): OutlineSection | undefined {
+	const wanted = (Array.isArray(headingPath) ? headingPath : headingPath.split(/\s*>\s*|\s+\/\s+/))
+		.map(normalizeTitle)
+		.filter((title) => title.length > 0);
+	if (wanted.length === 0) {
+		return undefined;
+	}
+
+	const endsWith = (section: OutlineSection) => {
+		const path = section.path.map(normalizeTitle);
+		return path.length >= wanted.length && wanted.every((title, index) => path[path.length - wanted.length + index] === title);
+	};
+
+	const flat = flattenSections(sections);
+	return flat.find((section) => endsWith(section) && section.path.length === wanted.length) ?? flat.find(endsWith);
+}
+
+/**
+ * Return the text of one section, including its subsections
+ * @param content - The text the outline was parsed from
+ * @param section - Section from findSection
+ * @returns SectionContent - Section position, text and the titles of its direct subsections
+ */
+export function getSectionContent(content: string, section: OutlineSection): SectionContent {
+	return {
+		title: section.title,
+		level: section.level,
+		path: section.path,
+		startLine: section.startLine,
+		endLine: section.endLine,
+		text: content
+			.split('\n')
+			.slice(section.startLine - 1, section.endLine)
+			.join('\n')
+			.trim(),
+		subsections: section.children.map((child) => child.title),
+	};
+}
@@ -0,0 +1,140 @@
+import type { FileParseResult, ParseOptions } from './FileParser';
+
+interface Env {
+	PARSE_CACHE?: KVNamespace;
+	PARSE_CACHE_TTL_SECONDS?: string;
+	PARSE_CACHE_MAX_BYTES?: string;
+}
+
+export interface CacheableFile {
+	fileId: string;
+	modifiedTime?: string;
+	md5Checksum?: string;
+}
+
+interface CacheEntry {
+	cachedAt: string;
+	result: FileParseResult;
+}
+
+const KEY_PREFIX = 'parse:';
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+/** KV rejects expirations shorter than a minute */
+const MIN_TTL_SECONDS = 60;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function optionsKey(options: ParseOptions): string {
+	const parts = [
+		options.fromPage !== undefined ? `from=${options.fromPage}` : '',
+		options.toPage !== undefined ? `to=${options.toPage}` : '',
+		options.removeHeadersFooters ? 'strip' : '',
+	].filter((part) => part.length > 0);
+	return parts.length > 0 ? parts.join('&') : 'all';
+}
+
+function reviveDates(result: FileParseResult): FileParseResult {
+	const metadata = result.data?.metadata;
+	if (metadata) {
+		metadata.creationDate = metadata.creationDate ? new Date(metadata.creationDate) : undefined;
+		metadata.modificationDate = metadata.modificationDate ? new Date(metadata.modificationDate) : undefined;
+	}
+	return result;
+}
+
+/**
+ * KV-backed cache of parse results, keyed by file ID, content version and parse options
+ */
+export class ParseCache {
+	private readonly ttlSeconds: number;
+	private readonly maxBytes: number;
+
+	constructor(
+		private readonly kv: KVNamespace,
+		options: { ttlSeconds?: number; maxBytes?: number } = {}
+	) {
+		this.ttlSeconds = Math.max(MIN_TTL_SECONDS, Math.floor(options.ttlSeconds ?? DEFAULT_TTL_SECONDS));
+		this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+	}
+
+	/**
+	 * Build the cache key for a file version. md5Checksum is preferred; Google Docs, Sheets and Slides only have modifiedTime.
+	 * @returns string - Cache key, or undefined when the file has no version to key on
+	 */
+	static keyFor(file: CacheableFile, options: ParseOptions = {}): string | undefined {
+		const version = file.md5Checksum || file.modifiedTime;
+		return version ? `${KEY_PREFIX}${file.fileId}:${version}:${optionsKey(options)}` : undefined;
+	}
+
+	/**
+	 * Look up a cached parse result
+	 * @returns Promise<FileParseResult> - The cached result, or undefined on a miss
+	 */
+	async get(file: CacheableFile, options: ParseOptions = {}): Promise<FileParseResult | undefined> {
+		const key = ParseCache.keyFor(file, options);
+		if (!key) {
+			return undefined;
+		}
+		const entry = await this.kv.get<CacheEntry>(key, 'json');
+		return entry ? reviveDates(entry.result) : undefined;
+	}
+
+	/**
+	 * Store a successful parse result unless it is larger than the size limit. Truncated results are not stored,
+	 * since how much of the file they hold depends on DRIVE_MAX_DOWNLOAD_BYTES rather than the file version.
+	 * @returns Promise<boolean> - Whether the result was stored
+	 */
+	async put(file: CacheableFile, options: ParseOptions, result: FileParseResult): Promise<boolean> {
+		const key = ParseCache.keyFor(file, options);
+		if (!key || !result.success || result.data?.metadata.truncated) {
+			return false;
+		}
+
+		const value = JSON.stringify({ cachedAt: new Date().toISOString(), result } satisfies CacheEntry);
+		if (new TextEncoder().encode(value).byteLength > this.maxBytes) {
+			console.log('Parse result too large to cache:', file.fileId);
+			return false;
+		}
+
+		await this.kv.put(key, value, { expirationTtl: this.ttlSeconds });
+		return true;
+	}
+
+	/**
+	 * Remove every cached version of a file
+	 * @returns Promise<number> - Number of cache entries removed
+	 */
+	async invalidate(fileId: string): Promise<number> {
+		const prefix = `${KEY_PREFIX}${fileId}:`;
+		let removed = 0;
+		let cursor: string | undefined;
+
+		do {
+			const page = await this.kv.list({ prefix, cursor });
+			await Promise.all(page.keys.map((key) => this.kv.delete(key.name)));
+			removed += page.keys.length;
+			cursor = page.list_complete ? undefined : page.cursor;
+		} while (cursor);
+
+		return removed;
+	}
+}
+
+/**
+ * Get the parse cache configured for this environment
+ * @param env - Environment with the PARSE_CACHE binding and optional TTL and size limit
+ * @returns ParseCache - The cache, or undefined when no PARSE_CACHE binding is configured
+ */
+export function getParseCache(env: Env): ParseCache | undefined {
+	if (!env.PARSE_CACHE) {
+		return undefined;
+	}
+	return new ParseCache(env.PARSE_CACHE, {
+		ttlSeconds: positiveNumber(env.PARSE_CACHE_TTL_SECONDS, DEFAULT_TTL_SECONDS),
+		maxBytes: positiveNumber(env.PARSE_CACHE_MAX_BYTES, DEFAULT_MAX_BYTES),
+	});
+}
@@ -0,0 +1,128 @@
+import { listFilesAndFolders, DriveItem, FOLDER_MIME_TYPE } from './gdrive';
+import { ensureInRoot, SandboxedItem } from './sandbox';
+import { isDriveId } from './driveIds';
+import { ToolError } from './errors';
+import { mapWithConcurrency } from './concurrency';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+}
+
+export interface PathResolution {
+	/** The path as normalized: no leading, trailing or repeated slashes */
+	path: string;
+	/** Every item the path names, with its real name and path. More than one when names are duplicated. */
+	matches: DriveItem[];
+	ambiguous: boolean;
+}
+
+/** Folders with the same name followed at each level, so a duplicated folder name cannot make a walk explode */
+const MAX_CANDIDATES = 20;
+const MAX_LISTED_NAMES = 10;
+const LIST_CONCURRENCY = 4;
+
+/**
+ * Split a root-relative path into names. Empty segments and "." are dropped, so "/Week 5//notes/" is ["Week 5", "notes"].
+ * @throws ToolError with code INVALID_ARGUMENT for ".." segments
+ */
+export function splitPath(path: string): string[] {
+	const segments = path
+		.trim()
+		.split('/')
+		.filter((segment) => segment.length > 0 && segment !== '.');
+	if (segments.includes('..')) {
+		throw new ToolError('INVALID_ARGUMENT', `Paths may not contain "..": ${path}`);
+	}
+	return segments;
+}
+
+function foldName(name: string): string {
+	return name.normalize('NFC').toLocaleLowerCase();
+}
+
+/**
+ * Pick the items named segment: exact matches if there are any, otherwise case-insensitive ones
+ */
+function matchName(items: DriveItem[], segment: string): DriveItem[] {
+	const exact = items.filter((item) => item.name.normalize('NFC') === segment.normalize('NFC'));
+	if (exact.length > 0) {
+		return exact;
+	}
+	const folded = foldName(segment);
+	return items.filter((item) => foldName(item.name) === folded);
+}
+
+/**
+ * Resolve a root-relative path such as "Week 5/Lecture Notes/slides.pdf" to Drive items, walking down from FOLDER_ID.
+ * Names match exactly, or case-insensitively when nothing matches exactly. A trailing slash only matches folders.
+ * Folders that share a name are all followed, so every item the path could mean is returned.
+ * @param env - Environment variables for Google API; FOLDER_ID is the root
+ * @param path - Root-relative path; "" or "/" is the root itself
+ * @returns Promise<PathResolution> - Matching items with their paths
+ * @throws ToolError with code NOT_FOUND when nothing matches
+ */
+export async function resolvePath(env: Env, path: string): Promise<PathResolution> {
+	const segments = splitPath(path);
+	const normalized = segments.join('/');
+	const root: DriveItem = { id: env.FOLDER_ID, name: '', mimeType: FOLDER_MIME_TYPE, isFolder: true, path: '' };
+	if (segments.length === 0) {
+		return { path: normalized, matches: [root], ambiguous: false };
+	}
+
+	const foldersOnly = path.trim().endsWith('/');
+	let candidates = [root];
+	for (const [depth, segment] of segments.entries()) {
+		const last = depth === segments.length - 1;
+		const listings = await mapWithConcurrency(candidates, LIST_CONCURRENCY, (folder) => listFilesAndFolders(env, folder.id, folder.path));
+		const matches = listings.flatMap((items) => matchName(items, segment)).filter((item) => item.isFolder || (last && !foldersOnly));
+
+		if (matches.length === 0) {
+			const parentPath = candidates[0].path || '/';
+			const names = listings.flat().map((item) => item.name);
+			const listed = names.slice(0, MAX_LISTED_NAMES).join(', ') + (names.length > MAX_LISTED_NAMES ? ', ...' : '');
+			throw new ToolError(
+				'NOT_FOUND',
+				`Path not found: ${normalized}. No ${last && !foldersOnly ? 'item' : 'folder'} named "${segment}" in ${parentPath}` +
+					(names.length > 0 ? `, which contains: ${listed}` : ', which is empty')
+			);
+		}
+		candidates = last ? matches : matches.slice(0, MAX_CANDIDATES);
+	}
+
+	return { path: normalized, matches: candidates, ambiguous: candidates.length > 1 };
+}
+
+/**
+ * Whether a tool argument is a path rather than a Drive ID. Anything with a "/" or that cannot be an ID is a path;
+ * start a path with "/" when a name, such as "Week5", could be mistaken for an ID.
+ */
+export function isPathReference(reference: string): boolean {
+	return reference.includes('/') || !isDriveId(reference);
+}
+
+/**
+ * Resolve a tool argument that is either a Drive ID or a root-relative path to one item under the root
+ * @param env - Environment variables for Google API; FOLDER_ID is the root
+ * @param reference - Drive ID or root-relative path
+ * @param label - What the argument is for, used in error messages
+ * @returns Promise<SandboxedItem> - The item and its root-relative path
+ * @throws ToolError with code INVALID_ARGUMENT when a path names more than one item, or NOT_FOUND when it names none.
+ * IDs are checked with ensureInRoot.
+ */
+export async function resolveItem(env: Env, reference: string, label = 'ID'): Promise<SandboxedItem> {
+	if (!isPathReference(reference)) {
+		return ensureInRoot(env, reference, label);
+	}
+
+	const { path, matches } = await resolvePath(env, reference);
+	if (matches.length > 1) {
+		throw new ToolError(
+			'INVALID_ARGUMENT',
+			`Path is ambiguous: ${path} matches ${matches.length} items (${matches.map((item) => `${item.id} ${item.mimeType}`).join(', ')}). Pass an ID instead`
+		);
+	}
+	const { id, name, mimeType, isFolder } = matches[0];
+	return { id, name, mimeType, isFolder, path: matches[0].path };
+}
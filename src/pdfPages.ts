@@ -0,0 +1,155 @@
+import { PDFDocument, PDFName, PDFDict, PDFArray, PDFRef, PDFString, PDFHexString, PDFObject } from 'pdf-lib';
+
+export interface PdfBookmark {
+	title: string;
+	level: number;
+	pageNumber?: number;
+}
+
+export interface PdfStructure {
+	pageCount: number;
+	bookmarks: PdfBookmark[];
+}
+
+export interface StripRepeatedLinesOptions {
+	/** Share of pages a line must appear on to count as a running header or footer */
+	threshold?: number;
+	/** Number of non-empty lines at the top and bottom of each page to inspect */
+	edgeLines?: number;
+	/** Page number of the first page passed in, when stripping a page range */
+	firstPageNumber?: number;
+}
+
+const MAX_BOOKMARKS = 500;
+const MIN_PAGES_FOR_REPEATS = 3;
+const PAGE_NUMBER_PATTERN = /^(page\s*)?[-–—(\[]?\s*\d{1,4}\s*[-–—)\]]?(\s*(of|\/)\s*\d{1,4})?$/i;
+
+function normalizeEdgeLine(line: string, pageNumber: number): string {
+	return line
+		.trim()
+		.replace(/\s+/g, ' ')
+		.replace(new RegExp(`(^|\\D)${pageNumber}(?=\\D|$)`, 'g'), '$1#')
+		.toLowerCase();
+}
+
+/**
+ * Remove running headers, footers and page numbers that repeat across most pages
+ * @param pages - Text of each page
+ * @param options - Repeat threshold and how many lines at each page edge to inspect
+ * @returns Object with the cleaned pages and the distinct line patterns that were removed
+ */
+export function stripRepeatedLines(pages: string[], options: StripRepeatedLinesOptions = {}): { pages: string[]; removedLines: string[] } {
+	const threshold = options.threshold ?? 0.6;
+	const edgeLines = options.edgeLines ?? 3;
+
+	const edgeIndexes = pages.map((page, pageIndex) => {
+		const lines = page.split('\n');
+		const nonEmpty = lines.map((line, index) => ({ line, index })).filter(({ line }) => line.trim().length > 0);
+		// Keep the top and bottom windows to a third of the page each so short pages keep their body text
+		const window = Math.max(1, Math.min(edgeLines, Math.floor(nonEmpty.length / 3)));
+		const edges = [...nonEmpty.slice(0, window), ...nonEmpty.slice(Math.max(window, nonEmpty.length - window))];
+		return { lines, edges, pageNumber: (options.firstPageNumber ?? 1) + pageIndex };
+	});
+
+	const pageCounts = new Map<string, number>();
+	if (pages.length >= MIN_PAGES_FOR_REPEATS) {
+		edgeIndexes.forEach(({ edges, pageNumber }) => {
+			new Set(edges.map(({ line }) => normalizeEdgeLine(line, pageNumber))).forEach((key) =>
+				pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1)
+			);
+		});
+	}
+
+	const minPages = Math.max(MIN_PAGES_FOR_REPEATS, Math.ceil(pages.length * threshold));
+	const removed = new Set<string>();
+
+	const cleaned = edgeIndexes.map(({ lines, edges, pageNumber }) => {
+		const drop = new Set<number>();
+		for (const { line, index } of edges) {
+			const key = normalizeEdgeLine(line, pageNumber);
+			if ((pageCounts.get(key) ?? 0) >= minPages || PAGE_NUMBER_PATTERN.test(line.trim())) {
+				drop.add(index);
+				removed.add(line.trim().replace(/\s+/g, ' '));
+			}
+		}
+		return lines
+			.filter((_, index) => !drop.has(index))
+			.join('\n')
+			.trim();
+	});
+
+	return { pages: cleaned, removedLines: [...removed].slice(0, 50) };
+}
+
+function decodeTitle(item: PDFDict): string {
+	const title = item.lookupMaybe(PDFName.of('Title'), PDFString, PDFHexString);
+	return title ? title.decodeText().trim() : '';
+}
+
+function destinationPage(doc: PDFDocument, item: PDFDict, pageRefs: PDFRef[]): number | undefined {
+	let destination: PDFObject | undefined = item.lookup(PDFName.of('Dest'));
+	if (!destination) {
+		const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+		destination = action?.lookup(PDFName.of('D'));
+	}
+
+	const resolved = destination instanceof PDFRef ? doc.context.lookup(destination) : destination;
+	if (!(resolved instanceof PDFArray) || resolved.size() === 0) {
+		return undefined;
+	}
+
+	const target = resolved.get(0);
+	if (!(target instanceof PDFRef)) {
+		return undefined;
+	}
+
+	const index = pageRefs.findIndex((ref) => ref.objectNumber === target.objectNumber && ref.generationNumber === target.generationNumber);
+	return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Read the page count and bookmark outline of a PDF with pdf-lib
+ * @param fileData - Binary data of the PDF
+ * @returns Promise<PdfStructure> - Page count and bookmarks in document order
+ */
+export async function readPdfStructure(fileData: ArrayBuffer): Promise<PdfStructure> {
+	const doc = await PDFDocument.load(fileData, { ignoreEncryption: true, updateMetadata: false });
+	const pageRefs = doc.getPages().map((page) => page.ref);
+	const bookmarks: PdfBookmark[] = [];
+	const visited = new Set<PDFDict>();
+
+	const walk = (first: PDFDict | undefined, level: number) => {
+		let item = first;
+		while (item && !visited.has(item) && bookmarks.length < MAX_BOOKMARKS) {
+			visited.add(item);
+			const title = decodeTitle(item);
+			if (title) {
+				bookmarks.push({ title, level, pageNumber: destinationPage(doc, item, pageRefs) });
+			}
+			walk(item.lookupMaybe(PDFName.of('First'), PDFDict), level + 1);
+			item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+		}
+	};
+
+	const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+	walk(outlines?.lookupMaybe(PDFName.of('First'), PDFDict), 1);
+
+	return { pageCount: doc.getPageCount(), bookmarks };
+}
+
+/**
+ * Convert a PDF date string such as "D:20240131120000+01'00'" to a Date
+ * @param value - Date string from the PDF info dictionary
+ * @returns Date, or undefined when the value is missing or malformed
+ */
+export function parsePdfDate(value: string | undefined): Date | undefined {
+	const match = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/);
+	if (!match) {
+		return undefined;
+	}
+
+	const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+	const offset = !zone || zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.replace(/'/g, '').slice(3, 5)}`;
+	const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+	return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,248 @@
+interface Env {
+	FOLDER_ID: string;
+	SHARED_SECRET: string;
+	API_KEYS?: string;
+}
+
+/**
+ * A named credential for calling the worker. Keys without tools or roots may call every tool on FOLDER_ID.
+ */
+export interface ApiKey {
+	name: string;
+	key: string;
+	/** Tool names this key may call; "*" allows every tool */
+	tools?: string[];
+	/** Folder IDs this key may use as its root; the first is the default */
+	roots?: string[];
+}
+
+export type AuthScheme = 'bearer' | 'hmac';
+
+export interface AuthenticatedKey {
+	name: string;
+	scheme: AuthScheme;
+	tools?: string[];
+	roots?: string[];
+}
+
+export const DEFAULT_KEY_NAME = 'default';
+export const ROOT_HEADER = 'X-MCP-Root';
+
+const MIN_KEY_LENGTH = 32;
+/** How far an HMAC timestamp may be from the worker's clock */
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+const HMAC_AUTHORIZATION = /^HMAC\s+(.+)$/i;
+
+export class RequestAuthError extends Error {
+	constructor(
+		readonly status: 401 | 403,
+		message: string
+	) {
+		super(message);
+		this.name = 'RequestAuthError';
+	}
+}
+
+/**
+ * Read SHARED_SECRET (as the "default" key with full access) and the named keys in API_KEYS
+ * @param env - Environment with SHARED_SECRET and the optional API_KEYS JSON array
+ * @returns Array of API keys
+ * @throws Error when API_KEYS is malformed or any key is shorter than 32 characters, so a bad configuration rejects every request
+ */
+export function loadApiKeys(env: Env): ApiKey[] {
+	const keys: ApiKey[] = [{ name: DEFAULT_KEY_NAME, key: env.SHARED_SECRET }];
+
+	if (env.API_KEYS) {
+		let configured: unknown;
+		try {
+			configured = JSON.parse(env.API_KEYS);
+		} catch {
+			throw new Error('API_KEYS must be a JSON array of {name, key, tools?, roots?}');
+		}
+		if (!Array.isArray(configured)) {
+			throw new Error('API_KEYS must be a JSON array of {name, key, tools?, roots?}');
+		}
+		for (const entry of configured as ApiKey[]) {
+			if (typeof entry?.name !== 'string' || typeof entry.key !== 'string') {
+				throw new Error('Every API_KEYS entry needs a name and a key');
+			}
+			keys.push({ name: entry.name, key: entry.key, tools: entry.tools, roots: entry.roots });
+		}
+	}
+
+	for (const apiKey of keys) {
+		if (!apiKey.key || apiKey.key.length < MIN_KEY_LENGTH) {
+			throw new Error(`API key "${apiKey.name}" is too short: keys must be at least ${MIN_KEY_LENGTH} characters`);
+		}
+	}
+	return keys;
+}
+
+async function sha256(value: string): Promise<ArrayBuffer> {
+	return crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+}
+
+/**
+ * Compare two secrets in constant time. Both are hashed first so their lengths do not leak either.
+ */
+export async function secretsEqual(a: string, b: string): Promise<boolean> {
+	const [hashA, hashB] = await Promise.all([sha256(a), sha256(b)]);
+	return crypto.subtle.timingSafeEqual(hashA, hashB);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+	return [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Sign a request for HMAC authentication. The signature covers the timestamp, method, path with query string,
+ * X-MCP-Root header and body.
+ * @param secret - The API key
+ * @param timestamp - Unix time in seconds
+ * @param method - HTTP method
+ * @param path - URL path and query string, e.g. "/rpc" or "/rpc?trace=1"
+ * @param body - Raw request body
+ * @param root - Value of the X-MCP-Root header, or an empty string when it is not sent
+ * @returns Promise<string> - Hex-encoded HMAC-SHA256 signature
+ */
+export async function signRequest(
+	secret: string,
+	timestamp: number,
+	method: string,
+	path: string,
+	body: string,
+	root = ''
+): Promise<string> {
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign(
+		'HMAC',
+		key,
+		new TextEncoder().encode(`${timestamp}\n${method.toUpperCase()}\n${path}\n${root}\n${body}`)
+	);
+	return toHex(signature);
+}
+
+function parseHmacParams(value: string): Record<string, string> {
+	const params: Record<string, string> = {};
+	for (const part of value.split(',')) {
+		const [name, ...rest] = part.split('=');
+		if (name && rest.length > 0) {
+			params[name.trim().toLowerCase()] = rest.join('=').trim();
+		}
+	}
+	return params;
+}
+
+function authenticated(apiKey: ApiKey, scheme: AuthScheme): AuthenticatedKey {
+	return { name: apiKey.name, scheme, tools: apiKey.tools, roots: apiKey.roots };
+}
+
+/**
+ * Identify the caller from the Authorization header. Two schemes are accepted:
+ * "Bearer <key>", and "HMAC key=<name>, timestamp=<unix seconds>, signature=<hex>" (see signRequest).
+ * @param request - Incoming request
+ * @param body - Raw request body, already read
+ * @param env - Environment with SHARED_SECRET and API_KEYS
+ * @returns Promise<AuthenticatedKey> - The matching key
+ * @throws RequestAuthError with status 401 when no key matches
+ * @throws Error when the configured keys are invalid (see loadApiKeys)
+ */
+export async function authenticateRequest(request: Request, body: string, env: Env): Promise<AuthenticatedKey> {
+	const authorization = request.headers.get('Authorization') ?? '';
+	const keys = loadApiKeys(env);
+
+	const hmac = authorization.match(HMAC_AUTHORIZATION);
+	if (hmac) {
+		const params = parseHmacParams(hmac[1]);
+		const apiKey = keys.find((candidate) => candidate.name === params.key);
+		const timestamp = Number(params.timestamp);
+		if (!apiKey || !params.signature || !Number.isFinite(timestamp)) {
+			throw new RequestAuthError(401, 'Invalid HMAC credentials');
+		}
+		if (Math.abs(Date.now() / 1000 - timestamp) > MAX_CLOCK_SKEW_SECONDS) {
+			throw new RequestAuthError(401, 'HMAC timestamp is outside the allowed window');
+		}
+		const url = new URL(request.url);
+		const root = request.headers.get(ROOT_HEADER) ?? '';
+		const expected = await signRequest(apiKey.key, timestamp, request.method, `${url.pathname}${url.search}`, body, root);
+		if (!(await secretsEqual(expected, params.signature.toLowerCase()))) {
+			throw new RequestAuthError(401, 'Invalid HMAC credentials');
+		}
+		return authenticated(apiKey, 'hmac');
+	}
+
+	const bearer = authorization.match(/^Bearer\s+(.+)$/i);
+	if (!bearer) {
+		throw new RequestAuthError(401, 'Missing credentials: send "Authorization: Bearer <key>" or an HMAC signature');
+	}
+
+	// Check every key so the response time does not reveal which one was close
+	let match: ApiKey | undefined;
+	for (const apiKey of keys) {
+		if ((await secretsEqual(apiKey.key, bearer[1].trim())) && !match) {
+			match = apiKey;
+		}
+	}
+	if (!match) {
+		throw new RequestAuthError(401, 'Invalid API key');
+	}
+	return authenticated(match, 'bearer');
+}
+
+/**
+ * Check that a key may call a tool
+ * @throws RequestAuthError with status 403 when the tool is not on the key's allow-list
+ */
+export function authorizeTool(key: AuthenticatedKey, tool: string): void {
+	if (key.tools && !key.tools.includes('*') && !key.tools.includes(tool)) {
+		throw new RequestAuthError(403, `API key "${key.name}" may not call ${tool}`);
+	}
+}
+
+/**
+ * Pick the root folder for a request: the X-MCP-Root header if given, otherwise the key's first root or FOLDER_ID
+ * @returns string - Folder ID the request runs against
+ * @throws RequestAuthError with status 403 when the requested root is not on the key's allow-list
+ */
+export function resolveRoot(key: AuthenticatedKey, requestedRoot: string | null, env: Env): string {
+	const allowed = key.roots && key.roots.length > 0 ? key.roots : [env.FOLDER_ID];
+	const root = requestedRoot?.trim() || allowed[0];
+	if (!allowed.includes(root)) {
+		throw new RequestAuthError(403, `API key "${key.name}" may not use root folder ${root}`);
+	}
+	return root;
+}
+
+/**
+ * Write a structured audit record of a rejected request to the worker logs
+ */
+export function auditAuthFailure(request: Request, error: RequestAuthError, details: { key?: string; tool?: string } = {}): void {
+	console.warn(
+		JSON.stringify({
+			audit: 'auth_denied',
+			status: error.status,
+			reason: error.message,
+			key: details.key,
+			tool: details.tool,
+			method: request.method,
+			path: new URL(request.url).pathname,
+			ip: request.headers.get('CF-Connecting-IP') ?? undefined,
+			userAgent: request.headers.get('User-Agent') ?? undefined,
+			time: new Date().toISOString(),
+		})
+	);
+}
+
+/**
+ * Build the 401 or 403 response for a rejected request
+ */
+export function authErrorResponse(error: RequestAuthError): Response {
+	const headers: Record<string, string> = {};
+	if (error.status === 401) {
+		headers['WWW-Authenticate'] = 'Bearer realm="ise-mcp", HMAC realm="ise-mcp"';
+	}
+	return Response.json(
+		{ error: error.status === 401 ? 'unauthorized' : 'forbidden', message: error.message },
+		{ status: error.status, headers }
+	);
+}
@@ -0,0 +1,254 @@
+import { authorizedFetch } from './auth';
+import { assertValidDriveId } from './driveIds';
+import { httpError, ToolError } from './errors';
+import { FileParser } from './FileParser';
+import { diffLines, diffStats, unifiedDiff, splitLines, DiffStats } from './diff';
+import { maxDownloadBytes, readLimitedBody } from './driveClient';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+	DRIVE_MAX_DOWNLOAD_BYTES?: string;
+}
+
+interface DriveRevision {
+	id?: string;
+	mimeType?: string;
+	modifiedTime?: string;
+	size?: string;
+	keepForever?: boolean;
+	originalFilename?: string;
+	lastModifyingUser?: { displayName?: string; emailAddress?: string };
+	exportLinks?: Record<string, string>;
+}
+
+export interface Revision {
+	id: string;
+	modifiedTime?: string;
+	mimeType: string;
+	size?: number;
+	keepForever?: boolean;
+	modifiedBy?: string;
+}
+
+export interface RevisionList {
+	fileId: string;
+	name: string;
+	mimeType: string;
+	/** Oldest first, as Drive returns them */
+	revisions: Revision[];
+}
+
+export interface RevisionDiffOptions {
+	/** Unchanged lines shown around each change (default 3) */
+	context?: number;
+}
+
+export interface RevisionDiff {
+	fileId: string;
+	name: string;
+	from: Revision;
+	to: Revision;
+	/** MIME type both revisions were parsed as */
+	comparedAs: string;
+	stats: DiffStats;
+	hunks: number;
+	/** Unified diff of the parsed text of both revisions */
+	diff: string;
+	truncated: boolean;
+}
+
+const DRIVE_FILES_URL = 'https://www.googleapis.com/drive/v3/files';
+const REVISION_FIELDS =
+	'id,mimeType,modifiedTime,size,keepForever,originalFilename,lastModifyingUser(displayName,emailAddress),exportLinks';
+
+/** Text formats to export Google Apps revisions as, best first. Sheets revisions only export their first tab as CSV. */
+const REVISION_EXPORT_FORMATS: Record<string, string[]> = {
+	'application/vnd.google-apps.document': ['text/markdown', 'text/plain'],
+	'application/vnd.google-apps.spreadsheet': ['text/csv'],
+	'application/vnd.google-apps.presentation': ['text/plain'],
+};
+
+async function getFile(env: Env, fileId: string): Promise<{ name: string; mimeType: string }> {
+	const response = await authorizedFetch(env, `${DRIVE_FILES_URL}/${fileId}?fields=id,name,mimeType&supportsAllDrives=true`);
+	if (!response.ok) {
+		throw await httpError(response, 'Failed to get file metadata');
+	}
+	const data = (await response.json()) as { name?: string; mimeType?: string };
+	return { name: data.name ?? '', mimeType: data.mimeType ?? '' };
+}
+
+async function fetchRevisions(env: Env, fileId: string): Promise<DriveRevision[]> {
+	const revisions: DriveRevision[] = [];
+	let pageToken: string | undefined;
+	do {
+		const query = new URLSearchParams({ fields: `nextPageToken,revisions(${REVISION_FIELDS})`, pageSize: '200' });
+		if (pageToken) {
+			query.set('pageToken', pageToken);
+		}
+		const response = await authorizedFetch(env, `${DRIVE_FILES_URL}/${fileId}/revisions?${query}`);
+		if (!response.ok) {
+			throw await httpError(response, 'Failed to list revisions');
+		}
+		const data = (await response.json()) as { revisions?: DriveRevision[]; nextPageToken?: string };
+		revisions.push(...(data.revisions || []));
+		pageToken = data.nextPageToken;
+	} while (pageToken);
+	return revisions;
+}
+
+function toRevision(revision: DriveRevision, fileMimeType: string): Revision {
+	return {
+		id: revision.id ?? '',
+		modifiedTime: revision.modifiedTime,
+		mimeType: revision.mimeType ?? fileMimeType,
+		size: revision.size ? parseInt(revision.size) : undefined,
+		keepForever: revision.keepForever,
+		modifiedBy: revision.lastModifyingUser?.emailAddress ?? revision.lastModifyingUser?.displayName,
+	};
+}
+
+/**
+ * List the stored revisions of a file
+ * @param env - Environment variables for Google API
+ * @param fileId - Google Drive file ID
+ * @returns Promise<RevisionList> - The file and its revisions, oldest first
+ */
+export async function listRevisions(env: Env, fileId: string): Promise<RevisionList> {
+	assertValidDriveId(fileId, 'file ID');
+	const file = await getFile(env, fileId);
+	const revisions = await fetchRevisions(env, fileId);
+	return { fileId, ...file, revisions: revisions.map((revision) => toRevision(revision, file.mimeType)) };
+}
+
+/**
+ * Read a revision's body, refusing revisions above DRIVE_MAX_DOWNLOAD_BYTES
+ */
+async function readRevisionBody(env: Env, response: Response, revision: DriveRevision): Promise<ArrayBuffer> {
+	const maxBytes = maxDownloadBytes(env);
+	const body = await readLimitedBody(response, maxBytes);
+	if (body.truncated) {
+		throw new ToolError(
+			'TOO_LARGE',
+			`Revision ${revision.id} is larger than the download limit of ${maxBytes} bytes (DRIVE_MAX_DOWNLOAD_BYTES)`
+		);
+	}
+	return body.data;
+}
+
+/**
+ * Download one revision, exporting Google Docs, Sheets and Slides through the revision's export links
+ * @param exportFormats - Export formats to try, best first; defaults to every text format for the file type
+ * @returns The revision's bytes and the MIME type to parse them as
+ */
+async function downloadRevision(
+	env: Env,
+	fileId: string,
+	fileMimeType: string,
+	revision: DriveRevision,
+	exportFormats: string[] | undefined = REVISION_EXPORT_FORMATS[fileMimeType]
+): Promise<{ data: ArrayBuffer; mimeType: string }> {
+	if (exportFormats) {
+		const format = exportFormats.find((mimeType) => revision.exportLinks?.[mimeType]);
+		if (!format) {
+			throw new ToolError('UNSUPPORTED_TYPE', `Revision ${revision.id} cannot be exported as ${exportFormats.join(' or ')}`);
+		}
+		const response = await authorizedFetch(env, revision.exportLinks![format]);
+		if (!response.ok) {
+			throw await httpError(response, `Failed to export revision ${revision.id}`);
+		}
+		return { data: await readRevisionBody(env, response, revision), mimeType: format };
+	}
+
+	const mimeType = revision.mimeType ?? fileMimeType;
+	if (!FileParser.isSupportedFileType(mimeType)) {
+		throw new ToolError('UNSUPPORTED_TYPE', `Unsupported file type: ${mimeType}`);
+	}
+	const maxBytes = maxDownloadBytes(env);
+	if (revision.size && parseInt(revision.size) > maxBytes) {
+		throw new ToolError(
+			'TOO_LARGE',
+			`Revision ${revision.id} is ${revision.size} bytes, above the download limit of ${maxBytes} bytes (DRIVE_MAX_DOWNLOAD_BYTES)`
+		);
+	}
+	const response = await authorizedFetch(env, `${DRIVE_FILES_URL}/${fileId}/revisions/${revision.id}?alt=media`);
+	if (!response.ok) {
+		throw await httpError(response, `Failed to download revision ${revision.id}`);
+	}
+	return { data: await readRevisionBody(env, response, revision), mimeType };
+}
+
+async function revisionText(
+	env: Env,
+	fileId: string,
+	file: { name: string; mimeType: string },
+	revision: DriveRevision,
+	exportFormats?: string[]
+): Promise<{ text: string; mimeType: string }> {
+	const { data, mimeType } = await downloadRevision(env, fileId, file.mimeType, revision, exportFormats);
+	const result = await FileParser.parseFile(data, file.name, mimeType);
+	if (!result.success) {
+		throw new ToolError(result.error!.code, `Revision ${revision.id}: ${result.error!.message}`, result.error!.status);
+	}
+	return { text: result.data!.content, mimeType };
+}
+
+/**
+ * Parse two revisions of a file and compare their text line by line
+ * @param env - Environment variables for Google API
+ * @param fileId - Google Drive file ID
+ * @param fromRevisionId - Older revision ID, from listRevisions
+ * @param toRevisionId - Newer revision ID, from listRevisions
+ * @param options - Context lines around each change
+ * @returns Promise<RevisionDiff> - Change stats and a unified diff, cut at 1000 lines
+ */
+export async function diffRevisions(
+	env: Env,
+	fileId: string,
+	fromRevisionId: string,
+	toRevisionId: string,
+	options: RevisionDiffOptions = {}
+): Promise<RevisionDiff> {
+	assertValidDriveId(fileId, 'file ID');
+	assertValidDriveId(fromRevisionId, 'revision ID');
+	assertValidDriveId(toRevisionId, 'revision ID');
+
+	const file = await getFile(env, fileId);
+	const revisions = await fetchRevisions(env, fileId);
+	const find = (revisionId: string) => {
+		const revision = revisions.find((candidate) => candidate.id === revisionId);
+		if (!revision) {
+			throw new ToolError('NOT_FOUND', `Revision not found: ${revisionId}. Call listRevisions for the file's revision IDs`);
+		}
+		return revision;
+	};
+	const from = find(fromRevisionId);
+	const to = find(toRevisionId);
+
+	// Export both revisions of a Google Doc in the same format, or the diff is all formatting
+	const sharedFormats = REVISION_EXPORT_FORMATS[file.mimeType]?.filter((format) => from.exportLinks?.[format] && to.exportLinks?.[format]);
+	const exportFormats = sharedFormats && sharedFormats.length > 0 ? sharedFormats : undefined;
+	const [oldText, newText] = await Promise.all([
+		revisionText(env, fileId, file, from, exportFormats),
+		revisionText(env, fileId, file, to, exportFormats),
+	]);
+	const ops = diffLines(splitLines(oldText.text), splitLines(newText.text));
+	const { diff, hunks, truncated } = unifiedDiff(ops, {
+		context: options.context,
+		oldLabel: `${file.name}@${fromRevisionId}`,
+		newLabel: `${file.name}@${toRevisionId}`,
+	});
+
+	return {
+		fileId,
+		name: file.name,
+		from: toRevision(from, file.mimeType),
+		to: toRevision(to, file.mimeType),
+		comparedAs: newText.mimeType,
+		stats: diffStats(ops),
+		hunks,
+		diff,
+		truncated,
+	};
+}
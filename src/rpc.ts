@@ -0,0 +1,97 @@
+import {
+	authenticateRequest,
+	authorizeTool,
+	resolveRoot,
+	auditAuthFailure,
+	authErrorResponse,
+	RequestAuthError,
+	ROOT_HEADER,
+} from './requestAuth';
+
+interface Env {
+	FOLDER_ID: string;
+	SHARED_SECRET: string;
+	API_KEYS?: string;
+}
+
+export interface RpcHandlers<E extends Env> {
+	/** Whether a method name is a callable tool */
+	isTool: (method: string) => boolean;
+	/** Call a tool with the request's environment, whose FOLDER_ID is the root chosen for the caller */
+	callTool: (method: string, args: unknown[], env: E) => Promise<unknown>;
+}
+
+function toResponse(result: unknown): Response {
+	if (result instanceof Response) {
+		return result;
+	}
+	if (typeof result === 'string') {
+		return new Response(result);
+	}
+	return Response.json(result);
+}
+
+/**
+ * Authenticate and authorize a workers-mcp RPC request ({method, args} POSTed to /rpc), then call the tool.
+ * Responses match workers-mcp's ProxyToSelf, with 401 and 403 JSON bodies for rejected requests.
+ * @param request - Incoming request
+ * @param env - Worker environment
+ * @param handlers - Tool lookup and dispatch
+ * @returns Promise<Response> - Tool result, or an error response
+ */
+export async function handleRpcRequest<E extends Env>(request: Request, env: E, handlers: RpcHandlers<E>): Promise<Response> {
+	const body = await request.text();
+
+	let key;
+	try {
+		key = await authenticateRequest(request, body, env);
+	} catch (error) {
+		if (error instanceof RequestAuthError) {
+			auditAuthFailure(request, error);
+			return authErrorResponse(error);
+		}
+		throw error;
+	}
+
+	const { pathname } = new URL(request.url);
+	if (pathname !== '/rpc' || request.method !== 'POST') {
+		return new Response(null, { status: 404 });
+	}
+
+	let call: { method?: unknown; args?: unknown };
+	try {
+		call = JSON.parse(body);
+	} catch {
+		return Response.json({ error: 'bad_request', message: 'Request body must be JSON: {method, args}' }, { status: 400 });
+	}
+	const method = typeof call.method === 'string' ? call.method : '';
+	const args = Array.isArray(call.args) ? call.args : [];
+	if (!handlers.isTool(method)) {
+		return Response.json({ error: 'not_found', message: `Unknown tool: ${method}` }, { status: 404 });
+	}
+
+	let root: string;
+	try {
+		authorizeTool(key, method);
+		root = resolveRoot(key, request.headers.get(ROOT_HEADER), env);
+	} catch (error) {
+		if (error instanceof RequestAuthError) {
+			auditAuthFailure(request, error, { key: key.name, tool: method });
+			return authErrorResponse(error);
+		}
+		throw error;
+	}
+
+	try {
+		return toResponse(await handlers.callTool(method, args, { ...env, FOLDER_ID: root }));
+	} catch (e) {
+		const error = e instanceof Error ? e : new Error(String(e));
+		return Response.json({
+			content: [
+				{ type: 'text', text: error.message },
+				{ type: 'text', text: JSON.stringify(error.stack) },
+			],
+			isError: true,
+		});
+	}
+}
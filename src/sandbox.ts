@@ -0,0 +1,127 @@
+import { authorizedFetch } from './auth';
+import { FOLDER_MIME_TYPE } from './gdrive';
+import { getFolderIndex, joinPath } from './folderIndex';
+import { assertValidDriveId, SandboxError } from './driveIds';
+import { httpError } from './errors';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+}
+
+interface ItemMetadata {
+	name: string;
+	mimeType: string;
+	parents: string[];
+}
+
+export interface SandboxedItem {
+	id: string;
+	name: string;
+	mimeType: string;
+	isFolder: boolean;
+	/** Path relative to the root folder; empty for the root itself */
+	path: string;
+}
+
+const METADATA_TTL_MS = 5 * 60 * 1000;
+const MAX_ANCESTRY_DEPTH = 25;
+
+/** Name, type and parents of items looked up while resolving ancestry; undefined for items that do not exist */
+const metadataCache = new Map<string, { item: ItemMetadata | undefined; expiresAt: number }>();
+
+async function getMetadata(env: Env, itemId: string): Promise<ItemMetadata | undefined> {
+	const cached = metadataCache.get(itemId);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.item;
+	}
+
+	const response = await authorizedFetch(
+		env,
+		`https://www.googleapis.com/drive/v3/files/${itemId}?fields=id,name,mimeType,parents&supportsAllDrives=true`
+	);
+	let item: ItemMetadata | undefined;
+	if (response.ok) {
+		const data = (await response.json()) as { name?: string; mimeType?: string; parents?: string[] };
+		item = { name: data.name ?? '', mimeType: data.mimeType ?? '', parents: data.parents ?? [] };
+	} else if (response.status !== 404) {
+		throw await httpError(response, 'Failed to get item details');
+	}
+
+	metadataCache.set(itemId, { item, expiresAt: Date.now() + METADATA_TTL_MS });
+	return item;
+}
+
+/**
+ * Check that an ID is well formed and names an item under the root folder, walking its ancestry up to the root.
+ * Folders under the root are answered from the folder index; other lookups are cached for a few minutes.
+ * @param env - Environment variables for Google API; FOLDER_ID is the root
+ * @param itemId - File or folder ID supplied by the caller
+ * @param label - What the ID is for, used in error messages
+ * @returns Promise<SandboxedItem> - The item and its root-relative path
+ * @throws SandboxError with reason INVALID_ID, NOT_FOUND or OUTSIDE_ROOT
+ */
+export async function ensureInRoot(env: Env, itemId: string, label = 'ID'): Promise<SandboxedItem> {
+	assertValidDriveId(itemId, label);
+
+	const folderIndex = await getFolderIndex(env);
+	const folder = folderIndex.get(itemId);
+	if (folder) {
+		return { id: itemId, name: folder.name, mimeType: FOLDER_MIME_TYPE, isFolder: true, path: folder.path };
+	}
+
+	const item = await getMetadata(env, itemId);
+	if (!item) {
+		throw new SandboxError('NOT_FOUND', itemId, `Item not found: ${itemId}`);
+	}
+
+	// Climb through parents the folder index does not know, such as folders created in the last few minutes
+	const names = [item.name];
+	let parents = item.parents;
+	for (let depth = 0; depth < MAX_ANCESTRY_DEPTH; depth++) {
+		const indexedParent = parents.find((parentId) => folderIndex.has(parentId));
+		if (indexedParent !== undefined) {
+			return {
+				id: itemId,
+				name: item.name,
+				mimeType: item.mimeType,
+				isFolder: item.mimeType === FOLDER_MIME_TYPE,
+				path: joinPath(folderIndex.pathOf(indexedParent)!, [...names].reverse().join('/')),
+			};
+		}
+		if (parents.length === 0) {
+			break;
+		}
+		const parent = await getMetadata(env, parents[0]);
+		if (!parent) {
+			break;
+		}
+		names.push(parent.name);
+		parents = parent.parents;
+	}
+
+	throw new SandboxError('OUTSIDE_ROOT', itemId, `Not inside the root folder: ${label} ${itemId}`);
+}
+
+/**
+ * Like ensureInRoot, but answers false instead of throwing for items outside the root or missing
+ */
+export async function isInRoot(env: Env, itemId: string): Promise<boolean> {
+	try {
+		await ensureInRoot(env, itemId);
+		return true;
+	} catch (error) {
+		if (error instanceof SandboxError) {
+			return false;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Drop cached item lookups, so the next check reads ancestry from Drive again
+ */
+export function clearSandboxCache(): void {
+	metadataCache.clear();
+}
@@ -0,0 +1,143 @@
+import { fetchFilesPage, escapeQueryValue, FOLDER_MIME_TYPE, DriveFileResource } from './gdrive';
+import { getFolderIndex, FolderIndex } from './folderIndex';
+import { ToolError } from './errors';
+
+interface Env {
+	FOLDER_ID: string;
+	GOOGLE_CLIENT_EMAIL: string;
+	GOOGLE_PRIVATE_KEY: string;
+}
+
+export interface SearchOptions {
+	mode?: 'name' | 'fullText' | 'both';
+	mimeType?: string;
+	modifiedAfter?: string;
+	modifiedBefore?: string;
+	owner?: string;
+	limit?: number;
+}
+
+export interface SearchResult {
+	id: string;
+	name: string;
+	mimeType: string;
+	isFolder: boolean;
+	path: string;
+	folderPath: string;
+	modifiedTime?: string;
+	size?: number;
+	owners?: string[];
+}
+
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LIMIT = 200;
+const MAX_SEARCH_PAGES = 10;
+
+function toRfc3339(value: string, option: string): string {
+	const date = new Date(value);
+	if (isNaN(date.getTime())) {
+		throw new ToolError('INVALID_ARGUMENT', `Invalid ${option} date: ${value}`);
+	}
+	return date.toISOString();
+}
+
+/**
+ * Build a Drive files.list query for a search term and filters, escaping all user input
+ * @param query - Text to search for
+ * @param options - Search mode and filters
+ * @returns string - Drive query expression
+ */
+export function buildSearchQuery(query: string, options: SearchOptions = {}): string {
+	const term = escapeQueryValue(query.trim());
+	const mode = options.mode ?? 'both';
+
+	const matchers: string[] = [];
+	if (mode === 'name' || mode === 'both') {
+		matchers.push(`name contains '${term}'`);
+	}
+	if (mode === 'fullText' || mode === 'both') {
+		matchers.push(`fullText contains '${term}'`);
+	}
+
+	const clauses = [`(${matchers.join(' or ')})`, 'trashed=false'];
+	if (options.mimeType) {
+		clauses.push(`mimeType='${escapeQueryValue(options.mimeType)}'`);
+	}
+	if (options.modifiedAfter) {
+		clauses.push(`modifiedTime > '${toRfc3339(options.modifiedAfter, 'modifiedAfter')}'`);
+	}
+	if (options.modifiedBefore) {
+		clauses.push(`modifiedTime < '${toRfc3339(options.modifiedBefore, 'modifiedBefore')}'`);
+	}
+	if (options.owner) {
+		clauses.push(`'${escapeQueryValue(options.owner)}' in owners`);
+	}
+
+	return clauses.join(' and ');
+}
+
+/**
+ * Search Drive by name and/or full text, keeping only results under the configured root
+ * @param env - Environment variables for Google API
+ * @param query - Text to search for
+ * @param options - Search mode, filters and result limit
+ * @returns Promise<SearchResult[]> - Matching items with their root-relative paths
+ */
+export async function searchFiles(env: Env, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+	if (!query || query.trim().length === 0) {
+		throw new ToolError('INVALID_ARGUMENT', 'Search query must not be empty');
+	}
+
+	const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_SEARCH_LIMIT), 1), MAX_SEARCH_LIMIT);
+	const params = {
+		q: buildSearchQuery(query, options),
+		fields: 'nextPageToken,files(id,name,mimeType,parents,modifiedTime,size,owners(displayName,emailAddress))',
+		supportsAllDrives: 'true',
+		includeItemsFromAllDrives: 'true',
+	};
+
+	const folderIndex = await getFolderIndex(env);
+	const results: SearchResult[] = [];
+	let cursor: string | undefined;
+	let pages = 0;
+
+	do {
+		const data = await fetchFilesPage(env, params, 'Failed to search files', { cursor });
+		for (const file of data.files || []) {
+			const result = toSearchResult(file, folderIndex);
+			if (result) {
+				results.push(result);
+			}
+			if (results.length >= limit) {
+				return results;
+			}
+		}
+		cursor = data.nextPageToken;
+		pages++;
+	} while (cursor && pages < MAX_SEARCH_PAGES);
+
+	return results;
+}
+
+function toSearchResult(file: DriveFileResource, folderIndex: FolderIndex): SearchResult | undefined {
+	if (!file.id || !file.name) {
+		return undefined;
+	}
+
+	const path = folderIndex.pathFor(file.name, file.parents);
+	if (path === undefined) {
+		return undefined;
+	}
+
+	return {
+		id: file.id,
+		name: file.name,
+		mimeType: file.mimeType ?? '',
+		isFolder: file.mimeType === FOLDER_MIME_TYPE,
+		path,
+		folderPath: path.slice(0, Math.max(0, path.length - file.name.length - 1)),
+		modifiedTime: file.modifiedTime,
+		size: file.size ? parseInt(file.size) : undefined,
+		owners: file.owners?.map((owner) => owner.emailAddress ?? owner.displayName ?? '').filter((owner) => owner.length > 0),
+	};
+}
@@ -0,0 +1,167 @@
+export const ENGLISH_STOPWORDS = new Set([
+	'a',
+	'about',
+	'above',
+	'after',
+	'again',
+	'against',
+	'all',
+	'also',
+	'am',
+	'an',
+	'and',
+	'any',
+	'are',
+	'as',
+	'at',
+	'be',
+	'because',
+	'been',
+	'before',
+	'being',
+	'below',
+	'between',
+	'both',
+	'but',
+	'by',
+	'can',
+	'could',
+	'did',
+	'do',
+	'does',
+	'doing',
+	'down',
+	'during',
+	'each',
+	'either',
+	'etc',
+	'few',
+	'for',
+	'from',
+	'further',
+	'had',
+	'has',
+	'have',
+	'having',
+	'he',
+	'her',
+	'here',
+	'hers',
+	'herself',
+	'him',
+	'himself',
+	'his',
+	'how',
+	'i',
+	'if',
+	'in',
+	'into',
+	'is',
+	'it',
+	'its',
+	'itself',
+	'just',
+	'may',
+	'me',
+	'might',
+	'more',
+	'most',
+	'must',
+	'my',
+	'myself',
+	'no',
+	'nor',
+	'not',
+	'now',
+	'of',
+	'off',
+	'on',
+	'once',
+	'one',
+	'only',
+	'or',
+	'other',
+	'our',
+	'ours',
+	'ourselves',
+	'out',
+	'over',
+	'own',
+	'same',
+	'shall',
+	'she',
+	'should',
+	'so',
+	'some',
+	'such',
+	'than',
+	'that',
+	'the',
+	'their',
+	'theirs',
+	'them',
+	'themselves',
+	'then',
+	'there',
+	'these',
+	'they',
+	'this',
+	'those',
+	'through',
+	'to',
+	'too',
+	'under',
+	'until',
+	'up',
+	'upon',
+	'us',
+	'very',
+	'via',
+	'was',
+	'we',
+	'were',
+	'what',
+	'when',
+	'where',
+	'whether',
+	'which',
+	'while',
+	'who',
+	'whom',
+	'why',
+	'will',
+	'with',
+	'within',
+	'would',
+	'yet',
+	'you',
+	'your',
+	'yours',
+	'yourself',
+	'yourselves',
+]);
+
+/**
+ * Split text into lowercase word tokens, with accents removed
+ * @param text - Text to split
+ * @returns Array of tokens in document order
+ */
+export function words(text: string): string[] {
+	return (
+		text
+			.toLowerCase()
+			.normalize('NFKD')
+			.replace(/[\u0300-\u036f]/g, '')
+			.match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || []
+	).map((word) => word.replace(/['’]s$/, ''));
+}
+
+/**
+ * Split text into search terms: lowercase words without stopwords or single characters
+ * @param text - Text to tokenize
+ * @param stopwords - Words to drop, defaults to the English stopword list
+ * @returns Array of terms in document order
+ */
+export function tokenize(text: string, stopwords: Set<string> = ENGLISH_STOPWORDS): string[] {
+	return words(text).filter((word) => word.length > 1 && !stopwords.has(word));
+}
@@ -0,0 +1,58 @@
+// test/analysis.spec.ts
+import { describe, it, expect } from 'vitest';
+import { extractKeywords, extractKeyphrases, summarize, splitSentences } from '../src/analysis';
+
+const REPORT = `# Water Quality Report
+
+River sampling showed elevated nitrate levels downstream of the farms. Nitrate levels peaked after heavy rain.
+
+The council funded new sampling stations along the river. Each station logs nitrate levels and temperature every hour.
+
+Volunteers painted the community hall in spring.
+
+Sampling data suggests farm runoff drives the nitrate levels in the river. Reducing runoff should lower nitrate levels.`;
+
+describe('extractKeywords', () => {
+	it('ranks frequent, concentrated terms and ignores stopwords', () => {
+		const keywords = extractKeywords(REPORT, { keywordCount: 3 }).map((keyword) => keyword.term);
+
+		expect(keywords.slice(0, 2).sort()).toEqual(['levels', 'nitrate']);
+		expect(keywords[2]).toBe('runoff');
+	});
+
+	it('applies configured stopwords and vocabulary', () => {
+		const keywords = extractKeywords(REPORT, { stopwords: ['nitrate', 'levels'], vocabulary: ['runoff'], keywordCount: 2 }).map(
+			(keyword) => keyword.term
+		);
+
+		expect(keywords).toEqual(['runoff', 'river']);
+	});
+});
+
+describe('extractKeyphrases', () => {
+	it('credits phrases that recur inside longer runs', () => {
+		const text =
+			'Machine learning needs clean data. The machine learning course covers neural networks and decision trees. Students build neural networks in week three. Clean data matters for machine learning.';
+		const phrases = extractKeyphrases(text, { keywordCount: 3 }).map((phrase) => phrase.term);
+
+		expect(phrases[0]).toBe('machine learning');
+		expect(phrases).toContain('neural networks');
+	});
+
+	it('keeps keywordCount between 1 and 50', () => {
+		const text = Array.from({ length: 80 }, (_, i) => `Topic${i} appears here.`).join(' ');
+
+		expect(extractKeyphrases(text, { keywordCount: -3 })).toHaveLength(1);
+		expect(extractKeywords(text, { keywordCount: 1000 })).toHaveLength(50);
+	});
+});
+
+describe('summarize', () => {
+	it('picks central sentences in document order and skips headings', () => {
+		const summary = summarize(REPORT, { summarySentences: 2 });
+
+		expect(summary).toHaveLength(2);
+		expect(summary.join(' ')).not.toMatch(/Volunteers|Water Quality Report/);
+		expect(splitSentences(REPORT).indexOf(summary[0])).toBeLessThan(splitSentences(REPORT).indexOf(summary[1]));
+	});
+});
@@ -0,0 +1,64 @@
+// test/auth.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { getAccessToken, clearTokenCache, InvalidPrivateKeyError, TokenRequestError } from '../src/auth';
+import { generatePem } from './helpers';
+
+describe('Google auth client', () => {
+	let env: { GOOGLE_CLIENT_EMAIL: string; GOOGLE_PRIVATE_KEY: string };
+
+	beforeAll(async () => {
+		env = { GOOGLE_CLIENT_EMAIL: 'svc@example.iam.gserviceaccount.com', GOOGLE_PRIVATE_KEY: await generatePem() };
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('reuses a cached token until it nears expiry', async () => {
+		fetchMock
+			.get('https://oauth2.googleapis.com')
+			.intercept({ path: '/token', method: 'POST' })
+			.reply(200, { access_token: 'token-1', expires_in: 3600, token_type: 'Bearer' });
+
+		expect(await getAccessToken(env)).toBe('token-1');
+		expect(await getAccessToken(env)).toBe('token-1');
+	});
+
+	it('requests a separate token per scope', async () => {
+		const origin = fetchMock.get('https://oauth2.googleapis.com');
+		origin.intercept({ path: '/token', method: 'POST' }).reply(200, { access_token: 'readonly', expires_in: 3600, token_type: 'Bearer' });
+		origin.intercept({ path: '/token', method: 'POST' }).reply(200, { access_token: 'full', expires_in: 3600, token_type: 'Bearer' });
+
+		expect(await getAccessToken(env)).toBe('readonly');
+		expect(await getAccessToken(env, 'https://www.googleapis.com/auth/drive')).toBe('full');
+	});
+
+	it('refreshes a token that expires within the safety margin', async () => {
+		const origin = fetchMock.get('https://oauth2.googleapis.com');
+		origin.intercept({ path: '/token', method: 'POST' }).reply(200, { access_token: 'short', expires_in: 30, token_type: 'Bearer' });
+		origin.intercept({ path: '/token', method: 'POST' }).reply(200, { access_token: 'fresh', expires_in: 3600, token_type: 'Bearer' });
+
+		expect(await getAccessToken(env)).toBe('short');
+		expect(await getAccessToken(env)).toBe('fresh');
+	});
+
+	it('rejects a key that is not PEM encoded', async () => {
+		await expect(getAccessToken({ ...env, GOOGLE_PRIVATE_KEY: 'not a key' })).rejects.toBeInstanceOf(InvalidPrivateKeyError);
+	});
+
+	it('surfaces a rejected token request with its status', async () => {
+		fetchMock.get('https://oauth2.googleapis.com').intercept({ path: '/token', method: 'POST' }).reply(400, { error: 'invalid_grant' });
+
+		const error = await getAccessToken(env).catch((e) => e);
+		expect(error).toBeInstanceOf(TokenRequestError);
+		expect(error.status).toBe(400);
+	});
+});
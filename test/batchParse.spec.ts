@@ -0,0 +1,93 @@
+// test/batchParse.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { parseFiles, parseFolder } from '../src/batchParse';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+const FOLDER = 'application/vnd.google-apps.folder';
+
+function mockListing(folderId: string, files: object[]): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes(`%27${folderId}%27+in+parents`) })
+		.reply(200, { files });
+}
+
+function mockTextFile(fileId: string, name: string, mimeType: string, content: string): void {
+	const drive = fetchMock.get('https://www.googleapis.com');
+	drive.intercept({ path: (path) => path.startsWith(`/drive/v3/files/${fileId}?fields=`) }).reply(200, { id: fileId, name, mimeType });
+	drive.intercept({ path: `/drive/v3/files/${fileId}?alt=media` }).reply(200, content);
+}
+
+describe('batch parsing', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>> & { GOOGLE_PROJECT_ID: string };
+
+	beforeAll(async () => {
+		env = { ...(await createTestEnv()), GOOGLE_PROJECT_ID: 'project' };
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('reports each file separately and combines their keywords', async () => {
+		const root = [
+			{ id: 'essayFileA1', name: 'essay-a.txt', mimeType: 'text/plain' },
+			{ id: 'essayFileB1', name: 'essay-b.md', mimeType: 'text/markdown' },
+		];
+		mockListing('rootFolderId0001', root);
+		mockListing('rootFolderId0001', root);
+		mockListing('rootFolderId0001', root);
+		mockTextFile('essayFileA1', 'essay-a.txt', 'text/plain', 'Photosynthesis turns light into chemical energy. Chlorophyll absorbs light.');
+		mockTextFile(
+			'essayFileB1',
+			'essay-b.md',
+			'text/markdown',
+			'# Plants\n\nPhotosynthesis happens in chloroplasts. Photosynthesis needs water.'
+		);
+
+		const result = await parseFiles(env, ['essay-a.txt', 'essay-b.md', 'missing.txt']);
+
+		expect(result.files.map((file) => [file.name ?? file.reference, file.success])).toEqual([
+			['essay-a.txt', true],
+			['essay-b.md', true],
+			['missing.txt', false],
+		]);
+		expect(result.files[2].error?.code).toBe('NOT_FOUND');
+		expect(result.summary).toMatchObject({
+			totalFiles: 3,
+			succeeded: 2,
+			totalWords: (result.files[0].wordCount ?? 0) + (result.files[1].wordCount ?? 0),
+			failedFiles: [{ reference: 'missing.txt', code: 'NOT_FOUND' }],
+		});
+		expect(result.summary.topKeywords.find((keyword) => keyword.term === 'photosynthesis')?.files).toBe(2);
+	});
+
+	it('parses a folder recursively, filtered by MIME type and cut at maxFiles', async () => {
+		mockListing('rootFolderId0001', [
+			{ id: 'groupAFolder', name: 'Group A', mimeType: FOLDER },
+			{ id: 'notesFile01', name: 'notes.md', mimeType: 'text/markdown' },
+			{ id: 'zetaFile001', name: 'zeta.txt', mimeType: 'text/plain' },
+		]);
+		mockListing('groupAFolder', [{ id: 'alphaFile01', name: 'alpha.txt', mimeType: 'text/plain' }]);
+		mockTextFile('alphaFile01', 'alpha.txt', 'text/plain', 'Group A submission');
+
+		const result = await parseFolder(
+			env,
+			{ id: 'rootFolderId0001', path: '' },
+			{ recursive: true, mimeTypes: ['text/plain'], maxFiles: 1 }
+		);
+
+		expect(result).toMatchObject({ folderId: 'rootFolderId0001', matched: 2, remaining: 1, unsupported: 0 });
+		expect(result.files).toEqual([expect.objectContaining({ path: 'Group A/alpha.txt', success: true, wordCount: 3 })]);
+	});
+});
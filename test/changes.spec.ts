@@ -0,0 +1,156 @@
+// test/changes.spec.ts
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { clearFolderIndexCache } from '../src/folderIndex';
+import { getStartPageToken, listChangesSince, summarizeChanges, encodeChangeCursor, decodeChangeCursor, DriveState } from '../src/changes';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+const FOLDER = 'application/vnd.google-apps.folder';
+
+describe('change cursors', () => {
+	it('round-trips wrapped tokens and accepts raw Drive tokens', () => {
+		const cursor = { token: '1234', since: '2025-05-01T00:00:00.000Z' };
+
+		expect(decodeChangeCursor(encodeChangeCursor(cursor))).toEqual(cursor);
+		expect(decodeChangeCursor('987')).toEqual({ token: '987' });
+		expect(() => decodeChangeCursor('not a token')).toThrow('Invalid page token');
+	});
+});
+
+describe('listChangesSince', () => {
+	beforeEach(() => {
+		clearTokenCache();
+		clearFolderIndexCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('classifies changes under the root and skips the rest', async () => {
+		const testEnv = { ...(await createTestEnv()), DRIVE_STATE: env.DRIVE_STATE };
+		const seeded = new DriveState(env.DRIVE_STATE, 'rootFolderId0001');
+		await seeded.get(['goneFile', 'movedFile']);
+		seeded.record('goneFile', { name: 'gone.txt', path: 'Week 1/gone.txt' });
+		seeded.record('movedFile', { name: 'a.txt', path: 'Week 1/a.txt', parentId: 'week1Folder' });
+		await seeded.save();
+
+		const drive = fetchMock.get('https://www.googleapis.com');
+		drive.intercept({ path: (path) => path.startsWith('/drive/v3/changes?') && path.includes('pageToken=100') }).reply(200, {
+			newStartPageToken: '101',
+			changes: [
+				{ fileId: 'week1Folder', file: { id: 'week1Folder', name: 'Week 1', mimeType: FOLDER, parents: ['rootFolderId0001'] } },
+				{
+					fileId: 'newFile',
+					file: { id: 'newFile', name: 'notes.pdf', parents: ['week1Folder'], createdTime: '2025-05-02T00:00:00.000Z' },
+				},
+				{ fileId: 'oldFile', file: { id: 'oldFile', name: 'old.txt', parents: ['rootFolderId0001'], trashed: true } },
+				{ fileId: 'movedFile', file: { id: 'movedFile', name: 'a.txt', parents: ['rootFolderId0001'] } },
+				{ fileId: 'outsideFile', file: { id: 'outsideFile', name: 'private.txt', parents: ['elsewhere'] } },
+				{ fileId: 'goneFile', removed: true },
+			],
+		});
+		drive
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('rootFolderId0001') })
+			.reply(200, { files: [{ id: 'week1Folder', name: 'Week 1', parents: ['rootFolderId0001'] }] });
+		drive.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('week1Folder') }).reply(200, { files: [] });
+
+		const result = await listChangesSince(testEnv, encodeChangeCursor({ token: '100', since: '2025-05-01T00:00:00.000Z' }));
+
+		expect(result.changes!.map((change) => [change.type, change.fileId, change.path ?? change.previousPath])).toEqual([
+			['modified', 'week1Folder', 'Week 1'],
+			['added', 'newFile', 'Week 1/notes.pdf'],
+			['trashed', 'oldFile', 'old.txt'],
+			['moved', 'movedFile', 'a.txt'],
+			['removed', 'goneFile', 'Week 1/gone.txt'],
+		]);
+		expect(result.changes![3].previousPath).toBe('Week 1/a.txt');
+		expect(result.hasMore).toBe(false);
+		expect(decodeChangeCursor(result.nextPageToken).token).toBe('101');
+		const stored = await new DriveState(env.DRIVE_STATE, 'rootFolderId0001').get(['goneFile', 'newFile']);
+		expect(stored.has('goneFile')).toBe(false);
+		expect(stored.get('newFile')).toMatchObject({ path: 'Week 1/notes.pdf' });
+	});
+
+	it('reports a malformed Drive response as a typed error', async () => {
+		const testEnv = await createTestEnv();
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: '/drive/v3/changes/startPageToken?supportsAllDrives=true' })
+			.reply(200, {});
+
+		await expect(getStartPageToken(testEnv)).rejects.toMatchObject({
+			code: 'INTERNAL',
+			message: 'Drive did not return a start page token',
+		});
+	});
+
+	it('keeps separate state for each root', async () => {
+		const rootA = { ...(await createTestEnv()), DRIVE_STATE: env.DRIVE_STATE };
+		const rootB = { ...rootA, FOLDER_ID: 'otherRootFolder1' };
+		const drive = fetchMock.get('https://www.googleapis.com');
+		for (const token of ['200', '300']) {
+			drive.intercept({ path: (path) => path.startsWith('/drive/v3/changes?') && path.includes(`pageToken=${token}`) }).reply(200, {
+				newStartPageToken: `${Number(token) + 1}`,
+				changes: [{ fileId: 'sharedFile', file: { id: 'sharedFile', name: 'a.txt', parents: ['week1Folder'] } }],
+			});
+		}
+		drive
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('rootFolderId0001') })
+			.reply(200, { files: [{ id: 'week1Folder', name: 'Week 1', parents: ['rootFolderId0001'] }] });
+		drive
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('%27week1Folder%27') })
+			.reply(200, { files: [] });
+		drive.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('otherRootFolder1') }).reply(200, { files: [] });
+
+		const seenByA = await listChangesSince(rootA, '200');
+		const seenByB = await listChangesSince(rootB, '300');
+
+		expect(seenByA.changes!.map((change) => [change.type, change.path])).toEqual([['modified', 'Week 1/a.txt']]);
+		expect(seenByB.changes).toEqual([]);
+		expect((await new DriveState(env.DRIVE_STATE, 'rootFolderId0001').get(['sharedFile'])).get('sharedFile')).toMatchObject({
+			path: 'Week 1/a.txt',
+		});
+	});
+});
+
+describe('DriveState', () => {
+	it('reads and writes each shard at most once however many items change', async () => {
+		const calls = { get: 0, put: 0 };
+		const kv = {
+			get: (...args: Parameters<KVNamespace['get']>) => (calls.get++, env.DRIVE_STATE.get(...args)),
+			put: (...args: Parameters<KVNamespace['put']>) => (calls.put++, env.DRIVE_STATE.put(...args)),
+		} as unknown as KVNamespace;
+		const fileIds = Array.from({ length: 1000 }, (_, index) => `file${index}`);
+
+		const state = new DriveState(kv, 'rootFolderId0001');
+		await state.get(fileIds);
+		fileIds.forEach((fileId) => state.record(fileId, { name: fileId, path: `Week 1/${fileId}` }));
+		await state.save();
+
+		expect(calls.get).toBeLessThanOrEqual(16);
+		expect(calls.put).toBeLessThanOrEqual(16);
+		expect((await new DriveState(env.DRIVE_STATE, 'rootFolderId0001').get(['file999'])).get('file999')?.path).toBe('Week 1/file999');
+	});
+});
+
+describe('summarizeChanges', () => {
+	it('groups changes by folder, busiest first', () => {
+		const folders = summarizeChanges([
+			{ type: 'added', fileId: '1', name: 'a.pdf', mimeType: '', isFolder: false, path: 'Week 1/a.pdf' },
+			{ type: 'modified', fileId: '2', name: 'b.pdf', mimeType: '', isFolder: false, path: 'Week 1/b.pdf' },
+			{ type: 'removed', fileId: '3', name: 'c.txt', mimeType: '', isFolder: false, previousPath: 'c.txt' },
+		]);
+
+		expect(folders.map((folder) => [folder.folderPath, folder.items.length])).toEqual([
+			['Week 1', 2],
+			['', 1],
+		]);
+		expect(folders[0].counts).toMatchObject({ added: 1, modified: 1, removed: 0 });
+	});
+});
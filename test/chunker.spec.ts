@@ -0,0 +1,58 @@
+// test/chunker.spec.ts
+import { describe, it, expect } from 'vitest';
+import { chunkContent, chunkCharBudget, toChunkManifest, buildChunkManifest } from '../src/chunker';
+
+const paragraph = (word: string, count: number) => Array.from({ length: count }, () => word).join(' ');
+
+describe('chunkContent', () => {
+	it('keeps every chunk within the character budget', () => {
+		const content = Array.from({ length: 20 }, (_, i) => paragraph(`p${i}`, 40)).join('\n\n');
+		const chunks = chunkContent(content, { chunkSize: 500 });
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks.every((chunk) => chunk.charCount <= 500)).toBe(true);
+		expect(chunks.map((chunk) => chunk.index)).toEqual(chunks.map((_, i) => i));
+	});
+
+	it('starts a new chunk at a heading once the current chunk is half full', () => {
+		const content = `# Intro\n${paragraph('alpha', 60)}\n\n# Method\n${paragraph('beta', 20)}`;
+		const chunks = chunkContent(content, { chunkSize: 600 });
+
+		expect(chunks).toHaveLength(2);
+		expect(chunks[0]).toMatchObject({ heading: 'Intro', startLine: 1, endLine: 2 });
+		expect(chunks[1]).toMatchObject({ heading: 'Method', startLine: 4, endLine: 5 });
+	});
+
+	it('splits a single oversized line', () => {
+		const chunks = chunkContent('x'.repeat(1000), { chunkSize: 300 });
+
+		expect(chunks.map((chunk) => chunk.charCount)).toEqual([300, 300, 300, 100]);
+		expect(chunks.every((chunk) => chunk.startLine === 1)).toBe(true);
+	});
+
+	it('reports page ranges from page start lines', () => {
+		const content = ['page one text', '', 'page two text', '', 'page three text'].join('\n');
+		const chunks = chunkContent(content, { chunkSize: 200, pageStartLines: [1, 3, 5] });
+
+		expect(chunks).toHaveLength(1);
+		expect(chunks[0]).toMatchObject({ startPage: 1, endPage: 3 });
+	});
+
+	it('converts token sizes to characters', () => {
+		expect(chunkCharBudget(1000, 'tokens')).toBe(4000);
+		expect(() => chunkCharBudget(0)).toThrow('Invalid chunk size');
+	});
+
+	it('builds a manifest without chunk text', () => {
+		const [entry] = toChunkManifest(chunkContent(paragraph('gamma', 50), { chunkSize: 1000 }));
+
+		expect(entry).not.toHaveProperty('text');
+		expect(entry.preview.endsWith('...')).toBe(true);
+	});
+
+	it('reports the chunk size after clamping', () => {
+		expect(buildChunkManifest('text', { chunkSize: 10 }).chunkSize).toBe(200);
+		expect(buildChunkManifest('text', { chunkSize: 1000000, unit: 'tokens' })).toMatchObject({ chunkSize: 50000, chunkUnit: 'tokens' });
+		expect(buildChunkManifest('text').chunkSize).toBe(8000);
+	});
+});
@@ -0,0 +1,91 @@
+// test/compare.spec.ts
+import { describe, it, expect } from 'vitest';
+import { compareContents } from '../src/compare';
+import { ParsedContent } from '../src/FileParser';
+
+function parsed(fileName: string, content: string, fileType = 'text/markdown'): ParsedContent {
+	return { content, metadata: { fileName, fileType } };
+}
+
+const HANDOUT_V1 = [
+	'Course handout',
+	'',
+	'# Week 1',
+	'Introductions and course overview.',
+	'## Reading',
+	'Chapter 1',
+	'# Week 2',
+	'Sorting algorithms.',
+	'# Week 3',
+	'Graphs.',
+].join('\n');
+
+const HANDOUT_V2 = [
+	'Course handout',
+	'',
+	'# Week 1',
+	'Introductions and course overview.',
+	'## Reading',
+	'Chapters 1 and 2',
+	'# Week 3',
+	'Graphs.',
+	'# Week 4',
+	'Dynamic programming.',
+].join('\n');
+
+describe('compareContents', () => {
+	it('diffs whole files line by line within the character budget', () => {
+		const result = compareContents(parsed('v1.md', HANDOUT_V1), parsed('v2.md', HANDOUT_V2));
+
+		expect(result).toMatchObject({
+			mode: 'lines',
+			a: { name: 'v1.md', lines: 10 },
+			b: { name: 'v2.md', lines: 10 },
+			stats: { added: 3, removed: 3, unchanged: 7 },
+			truncated: false,
+		});
+		expect(result.mode === 'lines' && result.diff).toContain('+Chapters 1 and 2');
+
+		const long = Array.from({ length: 400 }, (_, index) => `line ${index}`);
+		const edited = long.map((line, index) => (index % 20 === 0 ? `${line} edited` : line));
+		const budgeted = compareContents(parsed('a.txt', long.join('\n')), parsed('b.txt', edited.join('\n')), 'lines', { maxChars: 600 });
+
+		expect(budgeted.mode === 'lines' && budgeted.truncated).toBe(true);
+		expect(budgeted.mode === 'lines' && budgeted.diff.length).toBeLessThanOrEqual(600);
+	});
+
+	it('pairs sections by heading path and reports each change in document order', () => {
+		const result = compareContents(parsed('v1.md', HANDOUT_V1), parsed('v2.md', HANDOUT_V2), 'sections');
+		if (result.mode !== 'sections') {
+			throw new Error('expected a section comparison');
+		}
+
+		expect(result.stats).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 3 });
+		expect(result.sections.map(({ path, status }) => ({ path, status }))).toEqual([
+			{ path: 'Week 1 > Reading', status: 'changed' },
+			{ path: 'Week 2', status: 'removed' },
+			{ path: 'Week 4', status: 'added' },
+		]);
+		expect(result.sections[0].diff).toContain('@@ -5,2 +5,2 @@');
+		expect(result.sections[2].diff).toContain('+Dynamic programming.');
+	});
+
+	it('refuses section mode for text without headings', () => {
+		expect(() => compareContents(parsed('a.txt', 'plain text'), parsed('v2.md', HANDOUT_V2), 'sections')).toThrow(
+			expect.objectContaining({ code: 'UNSUPPORTED_TYPE' })
+		);
+	});
+
+	it('scores overlap with word shingles, regardless of case and punctuation', () => {
+		const essay = 'The quick brown fox jumps over the lazy dog near the river bank';
+		const copied = `Introduction. ${essay.toUpperCase()}!`;
+
+		const result = compareContents(parsed('a.txt', essay, 'text/plain'), parsed('b.txt', copied, 'text/plain'), 'similarity');
+
+		expect(result).toMatchObject({ mode: 'similarity', shingleSize: 5, shinglesA: 9, shinglesB: 10, sharedShingles: 9, containmentA: 1 });
+		expect(result.mode === 'similarity' && result.jaccard).toBe(0.9);
+		expect(compareContents(parsed('a.txt', essay), parsed('c.txt', 'Something else entirely, about cats.'), 'similarity')).toMatchObject({
+			jaccard: 0,
+		});
+	});
+});
@@ -0,0 +1,36 @@
+// test/concurrency.spec.ts
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../src/concurrency';
+
+describe('mapWithConcurrency', () => {
+	it('keeps results in input order', async () => {
+		const results = await mapWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+			await new Promise((resolve) => setTimeout(resolve, delay));
+			return index;
+		});
+
+		expect(results).toEqual([0, 1, 2]);
+	});
+
+	it('never runs more than the limit at once', async () => {
+		let active = 0;
+		let peak = 0;
+
+		await mapWithConcurrency(
+			Array.from({ length: 10 }, (_, i) => i),
+			3,
+			async () => {
+				active++;
+				peak = Math.max(peak, active);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				active--;
+			}
+		);
+
+		expect(peak).toBe(3);
+	});
+
+	it('handles an empty list', async () => {
+		expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+	});
+});
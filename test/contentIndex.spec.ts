@@ -0,0 +1,121 @@
+// test/contentIndex.spec.ts
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { ContentIndex, IndexDocument, indexFolder, splitPassages } from '../src/contentIndex';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+function document(fileId: string, name: string, content: string): IndexDocument {
+	const passages = splitPassages(content);
+	return {
+		fileId,
+		passages,
+		file: {
+			name,
+			mimeType: 'text/plain',
+			modifiedTime: '2025-01-01T00:00:00.000Z',
+			rootId: 'root',
+			passageCount: passages.length,
+			totalLength: passages.reduce((sum, passage) => sum + passage.text.split(/\s+/).length, 0),
+			indexedAt: '2025-01-01T00:00:00.000Z',
+		},
+	};
+}
+
+describe('splitPassages', () => {
+	it('splits on blank lines once a passage is long enough and keeps line ranges', () => {
+		const paragraph = 'word '.repeat(150).trim();
+		const passages = splitPassages(`${paragraph}\n\n${paragraph}\nsecond line`);
+
+		expect(passages).toHaveLength(2);
+		expect(passages[0]).toMatchObject({ startLine: 1, endLine: 1 });
+		expect(passages[1]).toMatchObject({ startLine: 3, endLine: 4 });
+	});
+});
+
+describe('ContentIndex', () => {
+	it('ranks the passage that matches the query best', async () => {
+		const index = new ContentIndex(env.CONTENT_INDEX);
+		await index.update([
+			document('doc-a', 'syllabus.txt', 'The course covers requirements engineering and software architecture.'),
+			document('doc-b', 'grading.txt', 'Grading: the final exam is worth 40 percent. The exam is closed book.'),
+		]);
+
+		const results = await index.search('final exam weighting', 5);
+
+		expect(results[0]).toMatchObject({ fileId: 'doc-b', fileName: 'grading.txt', startLine: 1 });
+		expect(results.every((result) => result.fileId !== 'doc-a')).toBe(true);
+	});
+
+	it('skips files the caller may not see before counting topK', async () => {
+		const index = new ContentIndex(env.CONTENT_INDEX);
+		await index.update([
+			document('doc-hidden', 'secret.txt', 'Rubric rubric rubric for the final report.'),
+			document('doc-shown', 'public.txt', 'The rubric is published with the report brief.'),
+		]);
+
+		const results = await index.search('rubric', 1, async (fileId) => fileId !== 'doc-hidden');
+
+		expect(results.map((result) => result.fileId)).toEqual(['doc-shown']);
+	});
+
+	it('replaces and removes documents', async () => {
+		const index = new ContentIndex(env.CONTENT_INDEX);
+		await index.update([document('doc-c', 'notes.txt', 'Kanban boards visualise work in progress.')]);
+		await index.update([document('doc-c', 'notes.txt', 'Scrum uses fixed-length sprints.')]);
+
+		expect(await index.search('kanban')).toEqual([]);
+		expect((await index.search('sprints'))[0].fileId).toBe('doc-c');
+
+		await index.update([], ['doc-c']);
+		expect(await index.search('sprints')).toEqual([]);
+		expect((await index.getManifest()).files['doc-c']).toBeUndefined();
+	});
+});
+
+describe('indexFolder', () => {
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('reports a missing CONTENT_INDEX binding as a configuration error', async () => {
+		await expect(indexFolder({ ...(await createTestEnv()), GOOGLE_PROJECT_ID: 'project' })).rejects.toMatchObject({
+			code: 'INTERNAL',
+			message: 'CONTENT_INDEX KV binding is not configured',
+		});
+	});
+
+	it('retries a file whose parse failed on the next run', async () => {
+		const testEnv = { ...(await createTestEnv()), GOOGLE_PROJECT_ID: 'project', CONTENT_INDEX: env.CONTENT_INDEX, DRIVE_MAX_RETRIES: '0' };
+		const drive = fetchMock.get('https://www.googleapis.com');
+		const mockListing = () =>
+			drive
+				.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('%27rootFolderId0001%27+in+parents') })
+				.reply(200, {
+					files: [{ id: 'flakyFile01', name: 'rubric.txt', mimeType: 'text/plain', modifiedTime: '2025-05-01T00:00:00.000Z' }],
+				});
+		const metadata = { path: (path: string) => path.startsWith('/drive/v3/files/flakyFile01?fields=') };
+
+		mockTokenEndpoint();
+		mockListing();
+		drive.intercept(metadata).reply(503, { error: { message: 'Backend Error' } });
+		const first = await indexFolder(testEnv);
+
+		clearTokenCache();
+		mockTokenEndpoint();
+		mockListing();
+		drive.intercept(metadata).reply(200, { id: 'flakyFile01', name: 'rubric.txt', mimeType: 'text/plain' });
+		drive.intercept({ path: '/drive/v3/files/flakyFile01?alt=media' }).reply(200, 'Marking rubric for the design report');
+		const second = await indexFolder(testEnv);
+
+		expect(first.failed.map((file) => file.fileId)).toEqual(['flakyFile01']);
+		expect(second).toMatchObject({ indexed: [{ fileId: 'flakyFile01', name: 'rubric.txt' }], failed: [], unchanged: 0 });
+	});
+});
@@ -0,0 +1,88 @@
+// test/csv.spec.ts
+import { describe, it, expect } from 'vitest';
+import { parseCsv, toCsvTable, describeCsvTable, queryCsvTable } from '../src/csv';
+
+const MARKS = [
+	'Student,Group,Score,Submitted',
+	'"Lee, Sam",T1,78,2024-03-01',
+	'Ana Lim,T2,91.5,2024-03-02',
+	'"Kai ""KJ"" Jones",T1,64,',
+	'Ravi,T2,85,2024-03-01',
+].join('\r\n');
+
+describe('parseCsv', () => {
+	it('keeps quoted delimiters, escaped quotes and embedded newlines', () => {
+		expect(parseCsv('a,b\n"x, y","line 1\nline 2"\n"say ""hi""",\n')).toEqual([
+			['a', 'b'],
+			['x, y', 'line 1\nline 2'],
+			['say "hi"', ''],
+		]);
+	});
+
+	it('detects semicolon delimiters and names blank or duplicate headers', () => {
+		const table = toCsvTable('name;;name\n1;2;3');
+
+		expect(table.delimiter).toBe(';');
+		expect(table.headers).toEqual(['name', 'column_2', 'name_2']);
+	});
+
+	it('handles files with hundreds of thousands of rows', () => {
+		const table = toCsvTable(`id,score\n${'1,2\n'.repeat(250000)}3,4,5\n`);
+
+		expect(table.rows.length).toBe(250001);
+		expect(table.headers).toEqual(['id', 'score', 'column_3']);
+	});
+});
+
+describe('describeCsvTable', () => {
+	it('infers column types and counts empty cells', () => {
+		const summary = describeCsvTable(toCsvTable(MARKS), 2);
+
+		expect(summary.rowCount).toBe(4);
+		expect(summary.columns.map(({ name, type }) => `${name}:${type}`)).toEqual([
+			'Student:string',
+			'Group:string',
+			'Score:number',
+			'Submitted:date',
+		]);
+		expect(summary.columns[3].emptyCount).toBe(1);
+		expect(summary.preview[0]).toEqual({ Student: 'Lee, Sam', Group: 'T1', Score: '78', Submitted: '2024-03-01' });
+	});
+});
+
+describe('queryCsvTable', () => {
+	const table = toCsvTable(MARKS);
+
+	it('averages a column per group', () => {
+		const result = queryCsvTable(table, { groupBy: 'Group', aggregate: [{ fn: 'avg', column: 'Score' }, { fn: 'count' }] });
+
+		expect(result.columns).toEqual(['Group', 'avg_Score', 'count']);
+		expect(result.rows).toEqual([
+			{ Group: 'T1', avg_Score: 71, count: 2 },
+			{ Group: 'T2', avg_Score: 88.25, count: 2 },
+		]);
+	});
+
+	it('filters numerically, selects columns, sorts and limits', () => {
+		const result = queryCsvTable(table, {
+			select: ['student', 'Score'],
+			where: [{ column: 'Score', op: '>=', value: 70 }],
+			orderBy: { column: 'Score', direction: 'desc' },
+			limit: 2,
+		});
+
+		expect(result.rows).toEqual([
+			{ Student: 'Ana Lim', Score: '91.5' },
+			{ Student: 'Ravi', Score: '85' },
+		]);
+		expect(result).toMatchObject({ matchedRows: 3, totalRows: 4, truncated: true });
+	});
+
+	it('rejects unknown columns', () => {
+		expect(() => queryCsvTable(table, { where: [{ column: 'Grade', value: 'A' }] })).toThrow(/Unknown column: Grade/);
+	});
+
+	it('rejects select together with groupBy', () => {
+		expect(() => queryCsvTable(table, { select: ['Student'], groupBy: 'Group' })).toThrow(/select cannot be combined with groupBy/);
+	});
+});
@@ -0,0 +1,63 @@
+// test/diff.spec.ts
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffStats, unifiedDiff, splitLines } from '../src/diff';
+
+describe('diffLines', () => {
+	it('finds the shortest set of inserted and deleted lines', () => {
+		const ops = diffLines(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+
+		expect(diffStats(ops)).toEqual({ added: 2, removed: 3, unchanged: 4 });
+		expect(ops.filter((op) => op.type !== 'insert').map((op) => op.text)).toEqual(['a', 'b', 'c', 'a', 'b', 'b', 'a']);
+		expect(ops.filter((op) => op.type !== 'delete').map((op) => op.text)).toEqual(['c', 'b', 'a', 'b', 'a', 'c']);
+	});
+
+	it('handles empty and identical texts', () => {
+		expect(diffLines([], [])).toEqual([]);
+		expect(diffStats(diffLines([], ['x', 'y']))).toEqual({ added: 2, removed: 0, unchanged: 0 });
+		expect(diffStats(diffLines(['x'], ['x']))).toEqual({ added: 0, removed: 0, unchanged: 1 });
+	});
+
+	it('splits on any line ending', () => {
+		expect(splitLines('one\r\ntwo\rthree\n')).toEqual(['one', 'two', 'three']);
+		expect(splitLines('')).toEqual([]);
+	});
+});
+
+describe('unifiedDiff', () => {
+	const oldLines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+
+	it('formats hunks with context and line ranges', () => {
+		const newLines = [...oldLines];
+		newLines[2] = 'line three';
+		newLines.splice(15, 1);
+
+		const result = unifiedDiff(diffLines(oldLines, newLines), { oldLabel: 'notes.md@1', newLabel: 'notes.md@2' });
+
+		expect(result.hunks).toBe(2);
+		expect(result.truncated).toBe(false);
+		expect(result.diff.split('\n').slice(0, 10)).toEqual([
+			'--- notes.md@1',
+			'+++ notes.md@2',
+			'@@ -1,6 +1,6 @@',
+			' line 1',
+			' line 2',
+			'-line 3',
+			'+line three',
+			' line 4',
+			' line 5',
+			' line 6',
+		]);
+		expect(result.diff).toContain('@@ -13,7 +13,6 @@');
+	});
+
+	it('returns an empty diff for identical texts and stops at maxLines', () => {
+		expect(unifiedDiff(diffLines(oldLines, oldLines))).toEqual({ diff: '', hunks: 0, truncated: false });
+
+		const changed = oldLines.map((line, index) => (index % 8 === 0 ? `${line}!` : line));
+		const result = unifiedDiff(diffLines(oldLines, changed), { context: 1, maxLines: 10 });
+
+		expect(result.hunks).toBe(3);
+		expect(result.truncated).toBe(true);
+		expect(result.diff.split('\n').length).toBeLessThanOrEqual(10);
+	});
+});
@@ -0,0 +1,105 @@
+// test/driveClient.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { driveFetch, backoffDelay, retryAfterMs, retryPolicyFor, withDeadline, readLimitedBody } from '../src/driveClient';
+
+const FILE_URL = 'https://www.googleapis.com/drive/v3/files/file123456?fields=id';
+// Keep backoff short so retries do not slow the tests down
+const env = { DRIVE_RETRY_BASE_MS: '1', DRIVE_MAX_RETRIES: '3' };
+
+function mockFile(status: number, body: object = {}, headers: Record<string, string> = {}, method = 'GET'): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith('/drive/v3/files/file123456'), method })
+		.reply(status, body, { headers });
+}
+
+describe('driveFetch', () => {
+	beforeEach(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('retries server errors and rate limits until a request succeeds', async () => {
+		mockFile(503);
+		mockFile(403, { error: { errors: [{ reason: 'userRateLimitExceeded' }] } }, { 'Retry-After': '0' });
+		mockFile(429);
+		mockFile(200, { id: 'file123456' });
+
+		const response = await driveFetch(env, FILE_URL);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ id: 'file123456' });
+	});
+
+	it('returns other errors, and the last failure once retries run out, without further attempts', async () => {
+		mockFile(403, { error: { errors: [{ reason: 'insufficientFilePermissions' }] } });
+		mockFile(500);
+		mockFile(500);
+
+		expect((await driveFetch(env, FILE_URL)).status).toBe(403);
+		expect((await driveFetch({ ...env, DRIVE_MAX_RETRIES: '1' }, FILE_URL)).status).toBe(500);
+	});
+
+	it('does not repeat a POST after a server error', async () => {
+		mockFile(500, {}, {}, 'POST');
+
+		expect((await driveFetch(env, FILE_URL, { method: 'POST', body: '{}' })).status).toBe(500);
+	});
+
+	it('stops at the tool deadline', async () => {
+		await expect(driveFetch(withDeadline(env, -1), FILE_URL)).rejects.toMatchObject({ code: 'TIMEOUT', retryable: true });
+	});
+});
+
+describe('retry timing', () => {
+	it('backs off exponentially with full jitter, capped at the maximum delay', () => {
+		const policy = retryPolicyFor({ DRIVE_RETRY_BASE_MS: '100' });
+
+		expect(backoffDelay(0, policy, () => 0.5)).toBe(50);
+		expect(backoffDelay(3, policy, () => 0.5)).toBe(400);
+		expect(backoffDelay(20, policy, () => 0.999)).toBeLessThan(policy.maxDelayMs);
+		expect(backoffDelay(2, policy, () => 0)).toBe(0);
+	});
+
+	it('reads Retry-After as seconds or as an HTTP date', () => {
+		const now = Date.parse('2026-01-01T00:00:00Z');
+
+		expect(retryAfterMs(new Response(null, { headers: { 'Retry-After': '3' } }), now)).toBe(3000);
+		expect(retryAfterMs(new Response(null, { headers: { 'Retry-After': 'Thu, 01 Jan 2026 00:00:05 GMT' } }), now)).toBe(5000);
+		expect(retryAfterMs(new Response(null), now)).toBeUndefined();
+	});
+});
+
+describe('readLimitedBody', () => {
+	function streamed(...chunks: string[]): Response {
+		const encoder = new TextEncoder();
+		return new Response(
+			new ReadableStream({
+				start(controller) {
+					chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+					controller.close();
+				},
+			})
+		);
+	}
+
+	it('discards skipped bytes across chunks and stops at maxBytes', async () => {
+		const body = await readLimitedBody(streamed('abc', 'defg', 'hij'), 4, 5);
+
+		expect(new TextDecoder().decode(body.data)).toBe('fghi');
+		expect(body.truncated).toBe(true);
+	});
+
+	it('returns nothing when the body ends before skip', async () => {
+		const body = await readLimitedBody(streamed('abc'), 4, 5);
+
+		expect(body).toMatchObject({ truncated: false });
+		expect(body.data.byteLength).toBe(0);
+	});
+});
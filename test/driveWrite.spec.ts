@@ -0,0 +1,115 @@
+// test/driveWrite.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { clearFolderIndexCache } from '../src/folderIndex';
+import { createFolder, moveItem, renameItem, uploadTextFile } from '../src/driveWrite';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+function mockFolders(): void {
+	const drive = fetchMock.get('https://www.googleapis.com');
+	drive.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('rootFolderId0001') }).reply(200, {
+		files: [
+			{ id: 'week1Folder', name: 'Week 1', parents: ['rootFolderId0001'] },
+			{ id: 'archiveFolder', name: 'Archive', parents: ['rootFolderId0001'] },
+		],
+	});
+	drive.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('week1Folder') }).reply(200, { files: [] });
+}
+
+function mockItem(file: object): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith('/drive/v3/files/report01?fields='), method: 'GET' })
+		.reply(200, file);
+}
+
+describe('Drive write tools', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>> & { ENABLE_WRITE_TOOLS?: string };
+
+	beforeAll(async () => {
+		env = { ...(await createTestEnv()), ENABLE_WRITE_TOOLS: 'true' };
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		clearFolderIndexCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('refuses to write unless ENABLE_WRITE_TOOLS is set', async () => {
+		await expect(createFolder({ ...env, ENABLE_WRITE_TOOLS: undefined }, 'Notes')).rejects.toThrow('Write tools are disabled');
+	});
+
+	it('reports a dry-run move without changing Drive', async () => {
+		mockTokenEndpoint();
+		mockFolders();
+		mockItem({ id: 'report01', name: 'report.pdf', mimeType: 'application/pdf', parents: ['week1Folder'] });
+
+		const result = await moveItem(env, 'report01', 'archiveFolder', { dryRun: true });
+
+		expect(result).toMatchObject({
+			action: 'moveItem',
+			dryRun: true,
+			previousPath: 'Week 1/report.pdf',
+			item: { path: 'Archive/report.pdf' },
+		});
+	});
+
+	it('moves an item out of its parents under the root only', async () => {
+		mockTokenEndpoint('read-token');
+		mockTokenEndpoint('write-token');
+		mockFolders();
+		mockItem({ id: 'report01', name: 'report.pdf', mimeType: 'application/pdf', parents: ['week1Folder', 'outsideFolder'] });
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({
+				path: (path) =>
+					path.startsWith('/drive/v3/files/report01?') &&
+					path.includes('addParents=archiveFolder&') &&
+					path.includes('removeParents=week1Folder&'),
+				method: 'PATCH',
+			})
+			.reply(200, { id: 'report01', name: 'report.pdf', mimeType: 'application/pdf', parents: ['archiveFolder', 'outsideFolder'] });
+
+		const result = await moveItem(env, 'report01', 'archiveFolder');
+
+		expect(result).toMatchObject({ dryRun: false, previousPath: 'Week 1/report.pdf', item: { path: 'Archive/report.pdf' } });
+	});
+
+	it('renames with the full Drive scope', async () => {
+		mockTokenEndpoint('read-token');
+		mockTokenEndpoint('write-token');
+		mockFolders();
+		mockItem({ id: 'report01', name: 'report.pdf', mimeType: 'application/pdf', parents: ['week1Folder'] });
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({
+				path: (path) => path.startsWith('/drive/v3/files/report01?'),
+				method: 'PATCH',
+				headers: { Authorization: 'Bearer write-token' },
+				body: JSON.stringify({ name: 'final.pdf' }),
+			})
+			.reply(200, { id: 'report01', name: 'final.pdf', mimeType: 'application/pdf', parents: ['week1Folder'] });
+
+		const result = await renameItem(env, 'report01', 'final.pdf');
+
+		expect(result).toMatchObject({ dryRun: false, previousPath: 'Week 1/report.pdf', item: { id: 'report01', path: 'Week 1/final.pdf' } });
+	});
+
+	it('rejects folders outside the root and non-text uploads', async () => {
+		mockTokenEndpoint();
+		mockFolders();
+
+		await expect(uploadTextFile(env, 'notes.md', '# Notes', 'someoneElsesFolder', 'text/markdown')).rejects.toThrow(
+			'Folder is not inside the root folder'
+		);
+		await expect(uploadTextFile(env, 'photo.png', 'x', undefined, 'image/png')).rejects.toThrow('Not a text MIME type');
+	});
+});
@@ -0,0 +1,54 @@
+// test/errors.spec.ts
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { codeForStatus, httpError, toToolError, ToolError } from '../src/errors';
+import { SandboxError } from '../src/driveIds';
+import { TokenRequestError } from '../src/auth';
+
+// Matches the bindings in vitest.config.mts
+const SHARED_SECRET = 'test-shared-secret-0123456789abcdef0123456789abcdef';
+
+describe('error codes', () => {
+	it('maps Drive HTTP statuses, telling rate limits apart from permission errors', () => {
+		const rateLimited = JSON.stringify({ error: { errors: [{ reason: 'userRateLimitExceeded' }] } });
+
+		expect(codeForStatus(404)).toBe('NOT_FOUND');
+		expect(codeForStatus(403)).toBe('PERMISSION_DENIED');
+		expect(codeForStatus(403, rateLimited)).toBe('RATE_LIMITED');
+		expect(codeForStatus(429)).toBe('RATE_LIMITED');
+		expect(codeForStatus(503)).toBe('INTERNAL');
+	});
+
+	it('keeps the status and marks server errors and rate limits as retryable', async () => {
+		const notFound = await httpError(new Response('{}', { status: 404, statusText: 'Not Found' }), 'Failed to get item');
+		const unavailable = await httpError(new Response('', { status: 503, statusText: 'Service Unavailable' }), 'Failed to list files');
+
+		expect(notFound.toInfo()).toEqual({ code: 'NOT_FOUND', message: 'Failed to get item: 404 Not Found', retryable: false, status: 404 });
+		expect(unavailable.retryable).toBe(true);
+		expect(new ToolError('RATE_LIMITED', 'Slow down').retryable).toBe(true);
+	});
+
+	it('converts thrown errors, keeping existing codes', () => {
+		expect(toToolError(new SandboxError('OUTSIDE_ROOT', 'abc', 'Not inside the root folder')).code).toBe('PERMISSION_DENIED');
+		expect(toToolError(new SandboxError('INVALID_ID', 'a/b', 'Invalid ID')).code).toBe('INVALID_ARGUMENT');
+		expect(toToolError(new TokenRequestError(400, 'Bad Request', 'invalid_grant')).code).toBe('AUTH_FAILED');
+		expect(toToolError(new ToolError('TOO_LARGE', 'Too big'), 'Upload failed').message).toBe('Upload failed: Too big');
+		expect(toToolError(new Error('Boom')).toInfo()).toEqual({ code: 'INTERNAL', message: 'Boom', retryable: false, status: undefined });
+	});
+});
+
+describe('tool error envelope', () => {
+	it('returns a coded error instead of throwing', async () => {
+		const response = await SELF.fetch('https://example.com/rpc', {
+			method: 'POST',
+			headers: { Authorization: `Bearer ${SHARED_SECRET}` },
+			body: JSON.stringify({ method: 'parseFile', args: ['../other-file'] }),
+		});
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			success: false,
+			error: { code: 'INVALID_ARGUMENT', message: expect.stringContaining('may not contain ".."'), retryable: false },
+		});
+	});
+});
@@ -0,0 +1,123 @@
+// test/fileRange.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { readFileRange } from '../src/fileRange';
+import { FileParser } from '../src/FileParser';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+// "é" is two bytes, at offsets 3 and 4
+const MENU = 'café au lait\n';
+
+function mockFile(fileId: string, name: string, mimeType: string, size?: number): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith(`/drive/v3/files/${fileId}?fields=`) })
+		.reply(200, { id: fileId, name, mimeType, size: size?.toString() });
+}
+
+function mockRange(fileId: string, range: string, status: number, body: string): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: `/drive/v3/files/${fileId}?alt=media`, headers: { range } })
+		.reply(status, body);
+}
+
+describe('readFileRange', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>>;
+
+	beforeAll(async () => {
+		env = await createTestEnv();
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('reads a byte range with a Range request', async () => {
+		mockFile('menuFile001', 'menu.txt', 'text/plain', 14);
+		mockRange('menuFile001', 'bytes=6-13', 206, 'au lait\n');
+
+		const result = await readFileRange(env, 'menuFile001', 6, 8);
+
+		expect(result).toMatchObject({ offset: 6, bytesRead: 8, text: 'au lait\n', eof: true });
+		expect(result.nextOffset).toBeUndefined();
+	});
+
+	it('skips to the offset when Drive ignores the Range header, keeping UTF-8 characters whole at both ends', async () => {
+		mockFile('menuFile001', 'menu.txt', 'text/plain', 14);
+		mockRange('menuFile001', 'bytes=0-3', 200, MENU);
+		mockFile('menuFile001', 'menu.txt', 'text/plain', 14);
+		mockRange('menuFile001', 'bytes=4-7', 200, MENU);
+
+		const first = await readFileRange(env, 'menuFile001', 0, 4);
+		const second = await readFileRange(env, 'menuFile001', 4, 4);
+
+		expect(first).toMatchObject({ offset: 0, bytesRead: 3, text: 'caf', nextOffset: 3, eof: false });
+		expect(second).toMatchObject({ offset: 5, text: ' au', nextOffset: 8, eof: false });
+	});
+
+	it('refuses binary files and offsets past the end without downloading', async () => {
+		mockFile('slidesFile1', 'slides.pdf', 'application/pdf', 4000);
+		mockFile('menuFile001', 'menu.txt', 'text/plain', 14);
+
+		await expect(readFileRange(env, 'slidesFile1', 0, 100)).rejects.toMatchObject({ code: 'UNSUPPORTED_TYPE' });
+		await expect(readFileRange(env, 'menuFile001', 20, 100)).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+	});
+});
+
+describe('download limits', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>> & { GOOGLE_PROJECT_ID: string; DRIVE_MAX_DOWNLOAD_BYTES: string };
+
+	beforeAll(async () => {
+		env = { ...(await createTestEnv()), GOOGLE_PROJECT_ID: 'project', DRIVE_MAX_DOWNLOAD_BYTES: '16' };
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('refuses large binary files before downloading them', async () => {
+		mockFile('lectureVideo', 'lecture.pdf', 'application/pdf', 500 * 1024 * 1024);
+
+		const result = await FileParser.parseFileFromDrive('lectureVideo', env);
+
+		expect(result.success).toBe(false);
+		expect(result.error?.code).toBe('TOO_LARGE');
+	});
+
+	it('stops reading a body that turns out to be over the limit', async () => {
+		mockFile('dataDump001', 'dump.pdf', 'application/pdf');
+		fetchMock.get('https://www.googleapis.com').intercept({ path: '/drive/v3/files/dataDump001?alt=media' }).reply(200, 'x'.repeat(64));
+
+		const result = await FileParser.parseFileFromDrive('dataDump001', env);
+
+		expect(result.error?.code).toBe('TOO_LARGE');
+	});
+
+	it('parses the start of a large text file up to its last whole line', async () => {
+		mockFile('logFile0001', 'log.txt', 'text/plain', 1000);
+		mockRange('logFile0001', 'bytes=0-15', 206, 'line one\nline two and more');
+
+		const result = await FileParser.parseFileFromDrive('logFile0001', env);
+
+		expect(result.data?.content).toBe('line one\n');
+		expect(result.data?.metadata).toMatchObject({ truncated: true, bytesRead: 9 });
+	});
+});
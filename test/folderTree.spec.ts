@@ -0,0 +1,133 @@
+// test/folderTree.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { buildFolderTree, createMimeTypeMatcher, FolderTreeNode } from '../src/folderTree';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+const FOLDER = 'application/vnd.google-apps.folder';
+
+// Course/
+//   Week 1/
+//     Readings/
+//       paper.pdf
+//     essay.pdf
+//   notes.md
+//   photo.png
+const LISTINGS: Record<string, object[]> = {
+	rootFolderId0001: [
+		{ id: 'weekOneFolder', name: 'Week 1', mimeType: FOLDER },
+		{ id: 'notesFile01', name: 'notes.md', mimeType: 'text/markdown' },
+		{ id: 'photoFile01', name: 'photo.png', mimeType: 'image/png' },
+	],
+	weekOneFolder: [
+		{ id: 'readingsFolder', name: 'Readings', mimeType: FOLDER },
+		{ id: 'essayFile01', name: 'essay.pdf', mimeType: 'application/pdf' },
+	],
+	readingsFolder: [{ id: 'paperFile01', name: 'paper.pdf', mimeType: 'application/pdf' }],
+};
+
+function mockRootFolder(): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith('/drive/v3/files/rootFolderId0001?fields=') })
+		.reply(200, { id: 'rootFolderId0001', name: 'Course', mimeType: FOLDER });
+}
+
+function mockListings(...folderIds: string[]): void {
+	for (const folderId of folderIds) {
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes(`%27${folderId}%27+in+parents`) })
+			.reply(200, { files: LISTINGS[folderId] });
+	}
+}
+
+function names(node: FolderTreeNode | undefined): string[] | undefined {
+	return node?.children?.map((child) => child.name);
+}
+
+describe('buildFolderTree', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>>;
+
+	beforeAll(async () => {
+		env = await createTestEnv();
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+		mockRootFolder();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('stops at maxDepth and marks the folders it did not open', async () => {
+		mockListings('rootFolderId0001');
+
+		const tree = await buildFolderTree(env, 'rootFolderId0001', { maxDepth: 1 });
+
+		expect(names(tree.root)).toEqual(['Week 1', 'notes.md', 'photo.png']);
+		expect(tree.root.counts).toEqual({ files: 2, folders: 1 });
+		expect(tree.root.children?.[0]).toMatchObject({ path: 'Course/Week 1', depth: 1, truncated: true });
+		expect(tree.root.children?.[0].children).toBeUndefined();
+		expect(tree.totals).toEqual({ files: 2, folders: 1, nodes: 4 });
+		expect(tree.truncated).toBe(false);
+	});
+
+	it('keeps only files matching the MIME type filter, and every folder', async () => {
+		mockListings('rootFolderId0001', 'weekOneFolder', 'readingsFolder');
+
+		const tree = await buildFolderTree(env, 'rootFolderId0001', { mimeTypeFilter: 'application/pdf', rootPath: '' });
+		const week = tree.root.children?.[0];
+
+		expect(names(tree.root)).toEqual(['Week 1']);
+		expect(tree.root.counts).toEqual({ files: 0, folders: 1 });
+		expect(names(week)).toEqual(['Readings', 'essay.pdf']);
+		expect(week?.children?.[1].path).toBe('Week 1/essay.pdf');
+		expect(week?.children?.[0].children?.[0]).toMatchObject({ path: 'Week 1/Readings/paper.pdf', depth: 3 });
+		expect(tree.totals).toEqual({ files: 2, folders: 2, nodes: 5 });
+	});
+
+	it('lists folders only when includeFiles is false', async () => {
+		mockListings('rootFolderId0001', 'weekOneFolder', 'readingsFolder');
+
+		const tree = await buildFolderTree(env, 'rootFolderId0001', { includeFiles: false });
+		const readings = tree.root.children?.[0].children?.[0];
+
+		expect(names(tree.root)).toEqual(['Week 1']);
+		expect(names(tree.root.children?.[0])).toEqual(['Readings']);
+		expect(readings?.children).toEqual([]);
+		expect(readings?.counts).toEqual({ files: 0, folders: 0 });
+		expect(tree.totals).toEqual({ files: 0, folders: 2, nodes: 3 });
+	});
+
+	it('stops adding nodes at maxNodes and reports the tree as truncated', async () => {
+		mockListings('rootFolderId0001');
+
+		const tree = await buildFolderTree(env, 'rootFolderId0001', { maxNodes: 3 });
+
+		expect(names(tree.root)).toEqual(['Week 1', 'notes.md']);
+		expect(tree.root.counts).toEqual({ files: 2, folders: 1 });
+		expect(tree.root.truncated).toBe(true);
+		expect(tree.root.children?.[0].truncated).toBe(true);
+		expect(tree.totals).toEqual({ files: 1, folders: 1, nodes: 3 });
+		expect(tree.truncated).toBe(true);
+	});
+});
+
+describe('createMimeTypeMatcher', () => {
+	it('matches exact types and whole families', () => {
+		const matches = createMimeTypeMatcher('application/pdf, image/*')!;
+
+		expect(matches('application/pdf')).toBe(true);
+		expect(matches('IMAGE/PNG')).toBe(true);
+		expect(matches('text/plain')).toBe(false);
+		expect(createMimeTypeMatcher(' , ')).toBeUndefined();
+	});
+});
@@ -0,0 +1,59 @@
+// test/gdrive.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { listFilesAndFolders, listFilesAndFoldersPage } from '../src/gdrive';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+describe('Drive listing', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>>;
+
+	beforeAll(async () => {
+		env = await createTestEnv();
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('follows nextPageToken until every page is read', async () => {
+		const drive = fetchMock.get('https://www.googleapis.com');
+		drive
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && !path.includes('pageToken=') })
+			.reply(200, { files: [{ id: 'a', name: 'A', mimeType: 'text/plain' }], nextPageToken: 'page-2' });
+		drive
+			.intercept({ path: (path) => path.includes('pageToken=page-2') })
+			.reply(200, { files: [{ id: 'b', name: 'B', mimeType: 'application/vnd.google-apps.folder' }] });
+
+		const items = await listFilesAndFolders(env, 'folder123456');
+
+		expect(items.map((item) => item.id)).toEqual(['a', 'b']);
+		expect(items[1].isFolder).toBe(true);
+	});
+
+	it('returns a single page with a cursor for the next one', async () => {
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.includes('pageSize=2') && path.includes('pageToken=cursor-1') })
+			.reply(200, {
+				files: [
+					{ id: 'c', name: 'C', mimeType: 'text/plain' },
+					{ id: 'd', name: 'D', mimeType: 'text/plain' },
+				],
+				nextPageToken: 'cursor-2',
+			});
+
+		const page = await listFilesAndFoldersPage(env, 'folder123456', { cursor: 'cursor-1', limit: 2 });
+
+		expect(page.items).toHaveLength(2);
+		expect(page.nextCursor).toBe('cursor-2');
+	});
+});
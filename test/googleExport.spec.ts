@@ -0,0 +1,151 @@
+// test/googleExport.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { FileParser } from '../src/FileParser';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+function mockMetadata(fileId: string, name: string, mimeType: string): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith(`/drive/v3/files/${fileId}?fields=`) })
+		.reply(200, { id: fileId, name, mimeType });
+}
+
+function text(content: string): object {
+	return { textElements: [{ textRun: { content } }] };
+}
+
+describe('Google file exports', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>> & { GOOGLE_PROJECT_ID: string; DRIVE_MAX_RETRIES: string };
+
+	beforeAll(async () => {
+		env = { ...(await createTestEnv()), GOOGLE_PROJECT_ID: 'project', DRIVE_MAX_RETRIES: '0' };
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('exports a Google Doc as Markdown with an outline', async () => {
+		mockMetadata('syllabusDoc1', 'Syllabus', 'application/vnd.google-apps.document');
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: '/drive/v3/files/syllabusDoc1/export?mimeType=text%2Fmarkdown' })
+			.reply(200, '# Syllabus\n\n## Grading\n\nEssays count for half.\n');
+
+		const result = await FileParser.parseFileFromDrive('syllabusDoc1', env);
+
+		expect(result.data?.content).toBe('# Syllabus\n\n## Grading\n\nEssays count for half.\n');
+		expect(result.data?.metadata).toMatchObject({ fileType: 'Google Doc', fileName: 'Syllabus', exportedAs: 'text/markdown' });
+		expect(result.data?.outline?.sections[0]).toMatchObject({
+			title: 'Syllabus',
+			children: [expect.objectContaining({ title: 'Grading' })],
+		});
+	});
+
+	it('falls back to plain text when Drive cannot export a Doc as Markdown', async () => {
+		mockMetadata('syllabusDoc1', 'Syllabus', 'application/vnd.google-apps.document');
+		const drive = fetchMock.get('https://www.googleapis.com');
+		drive
+			.intercept({ path: '/drive/v3/files/syllabusDoc1/export?mimeType=text%2Fmarkdown' })
+			.reply(400, { error: { code: 400, message: 'Export format not supported' } });
+		drive.intercept({ path: '/drive/v3/files/syllabusDoc1/export?mimeType=text%2Fplain' }).reply(200, 'Syllabus\r\nGrading');
+
+		const result = await FileParser.parseFileFromDrive('syllabusDoc1', env);
+
+		expect(result.data?.content).toBe('Syllabus\r\nGrading');
+		expect(result.data?.metadata.exportedAs).toBe('text/plain');
+		expect(result.data?.outline).toBeUndefined();
+	});
+
+	it('exports every tab of a Google Sheet in tab order', async () => {
+		mockMetadata('gradesSheet1', 'Grades', 'application/vnd.google-apps.spreadsheet');
+		const sheets = fetchMock.get('https://sheets.googleapis.com');
+		sheets.intercept({ path: (path) => path.startsWith('/v4/spreadsheets/gradesSheet1?fields=') }).reply(200, {
+			properties: { title: 'Grades' },
+			sheets: [{ properties: { sheetId: 2, title: 'Essays', index: 1 } }, { properties: { sheetId: 1, title: 'Roster', index: 0 } }],
+		});
+		sheets
+			.intercept({
+				path: (path) =>
+					path.startsWith('/v4/spreadsheets/gradesSheet1/values:batchGet?') &&
+					path.includes('ranges=%27Roster%27') &&
+					path.includes('ranges=%27Essays%27'),
+			})
+			.reply(200, {
+				valueRanges: [
+					{
+						values: [
+							['Name', 'Group'],
+							['Ada, L.', 'A'],
+						],
+					},
+					{
+						values: [
+							['Name', 'Score'],
+							['Ada, L.', 91],
+						],
+					},
+				],
+			});
+
+		const result = await FileParser.parseFileFromDrive('gradesSheet1', env);
+
+		expect(result.data?.content).toBe('## Roster\n\nName,Group\n"Ada, L.",A\n\n## Essays\n\nName,Score\n"Ada, L.",91');
+		expect(result.data?.metadata).toMatchObject({
+			fileType: 'Google Sheet',
+			title: 'Grades',
+			exportedAs: 'text/markdown',
+			sheetNames: ['Roster', 'Essays'],
+		});
+	});
+
+	it('exports the text and speaker notes of every slide', async () => {
+		mockMetadata('lectureDeck1', 'Lecture 1', 'application/vnd.google-apps.presentation');
+		fetchMock
+			.get('https://slides.googleapis.com')
+			.intercept({ path: '/v1/presentations/lectureDeck1' })
+			.reply(200, {
+				title: 'Lecture 1',
+				slides: [
+					{
+						pageElements: [{ shape: { text: text('Cells\n') } }, { elementGroup: { children: [{ shape: { text: text('Membranes') } }] } }],
+						slideProperties: { notesPage: { pageElements: [{ shape: { text: text('Start with a question') } }] } },
+					},
+					{
+						pageElements: [
+							{
+								table: {
+									tableRows: [
+										{ tableCells: [{ text: text('Organelle') }, { text: text('Role') }] },
+										{ tableCells: [{ text: text('Nucleus') }, { text: text('DNA\n') }] },
+									],
+								},
+							},
+						],
+					},
+				],
+			});
+
+		const result = await FileParser.parseFileFromDrive('lectureDeck1', env);
+
+		expect(result.data?.content).toBe(
+			'## Slide 1\n\nCells\nMembranes\n\nSpeaker notes:\nStart with a question\n\n## Slide 2\n\nOrganelle | Role\nNucleus | DNA'
+		);
+		expect(result.data?.metadata).toMatchObject({
+			fileType: 'Google Slides',
+			pageCount: 2,
+			title: 'Lecture 1',
+			exportedAs: 'text/markdown',
+		});
+	});
+});
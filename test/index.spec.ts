@@ -1,25 +1,109 @@
 // test/index.spec.ts
-import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
+import { SELF } from 'cloudflare:test';
 import { describe, it, expect } from 'vitest';
-import worker from '../src/index';
-
-// For now, you'll need to do something like this to get a correctly-typed
-// `Request` to pass to `worker.fetch()`.
-const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
-
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
-		const request = new IncomingRequest('http://example.com');
-		// Create an empty context to pass to `worker.fetch()`.
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
-		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
-	});
-
-	it('responds with Hello World! (integration style)', async () => {
-		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+import { signRequest, resolveRoot, secretsEqual, loadApiKeys } from '../src/requestAuth';
+
+// Matches the bindings in vitest.config.mts
+const SHARED_SECRET = 'test-shared-secret-0123456789abcdef0123456789abcdef';
+const TUTOR_KEY = 'tutor-bot-key-0123456789abcdef0123456789';
+
+function rpc(method: string, args: unknown[], headers: Record<string, string> = {}): Promise<Response> {
+	return SELF.fetch('https://example.com/rpc', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body: JSON.stringify({ method, args }),
+	});
+}
+
+describe('RPC authentication', () => {
+	it('rejects requests without valid credentials', async () => {
+		const missing = await rpc('sayHello', ['Ada']);
+		const wrong = await rpc('sayHello', ['Ada'], { Authorization: `Bearer ${SHARED_SECRET.replace('test', 'nope')}` });
+
+		expect(missing.status).toBe(401);
+		expect(missing.headers.get('WWW-Authenticate')).toContain('Bearer');
+		expect(await wrong.json()).toEqual({ error: 'unauthorized', message: 'Invalid API key' });
+	});
+
+	it('accepts SHARED_SECRET as a bearer token', async () => {
+		const response = await rpc('sayHello', ['Ada'], { Authorization: `Bearer ${SHARED_SECRET}` });
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('Hello Ada!');
+	});
+
+	it('accepts HMAC-signed requests from named keys', async () => {
+		const body = JSON.stringify({ method: 'sayHello', args: ['Grace'] });
+		const timestamp = Math.floor(Date.now() / 1000);
+		const signature = await signRequest(TUTOR_KEY, timestamp, 'POST', '/rpc', body);
+
+		const response = await SELF.fetch('https://example.com/rpc', {
+			method: 'POST',
+			headers: { Authorization: `HMAC key=tutor-bot, timestamp=${timestamp}, signature=${signature}` },
+			body,
+		});
+		const stale = await SELF.fetch('https://example.com/rpc', {
+			method: 'POST',
+			headers: { Authorization: `HMAC key=tutor-bot, timestamp=${timestamp - 3600}, signature=${signature}` },
+			body,
+		});
+
+		expect(await response.text()).toBe('Hello Grace!');
+		expect(stale.status).toBe(401);
+	});
+
+	it('covers the query string and X-MCP-Root header in HMAC signatures', async () => {
+		const body = JSON.stringify({ method: 'sayHello', args: ['Grace'] });
+		const timestamp = Math.floor(Date.now() / 1000);
+		const send = async (url: string, root: string, signedPath: string, signedRoot: string) => {
+			const signature = await signRequest(TUTOR_KEY, timestamp, 'POST', signedPath, body, signedRoot);
+			return SELF.fetch(url, {
+				method: 'POST',
+				headers: { Authorization: `HMAC key=tutor-bot, timestamp=${timestamp}, signature=${signature}`, 'X-MCP-Root': root },
+				body,
+			});
+		};
+
+		const signed = await send('https://example.com/rpc', 'rootFolderId0001', '/rpc', 'rootFolderId0001');
+		const unsignedRoot = await send('https://example.com/rpc', 'rootFolderId0001', '/rpc', '');
+		const unsignedQuery = await send('https://example.com/rpc?trace=1', 'rootFolderId0001', '/rpc', 'rootFolderId0001');
+
+		expect(await signed.text()).toBe('Hello Grace!');
+		expect(unsignedRoot.status).toBe(401);
+		expect(unsignedQuery.status).toBe(401);
+	});
+
+	it('enforces per-key tool and root allow-lists', async () => {
+		const tool = await rpc('listFiles', [], { Authorization: `Bearer ${TUTOR_KEY}` });
+		const root = await rpc('sayHello', ['Ada'], { Authorization: `Bearer ${TUTOR_KEY}`, 'X-MCP-Root': 'otherFolder' });
+
+		expect(tool.status).toBe(403);
+		expect(await tool.json()).toEqual({ error: 'forbidden', message: 'API key "tutor-bot" may not call listFiles' });
+		expect(root.status).toBe(403);
+	});
+});
+
+describe('request auth helpers', () => {
+	it('compares secrets of any length', async () => {
+		expect(await secretsEqual('abc', 'abc')).toBe(true);
+		expect(await secretsEqual('abc', 'abcd')).toBe(false);
+	});
+
+	it('refuses to load a configuration with a short key', () => {
+		const env = { FOLDER_ID: 'root', SHARED_SECRET: SHARED_SECRET };
+
+		expect(loadApiKeys({ ...env, API_KEYS: JSON.stringify([{ name: 'tutor-bot', key: TUTOR_KEY }]) })).toHaveLength(2);
+		expect(() => loadApiKeys({ ...env, API_KEYS: JSON.stringify([{ name: 'weak', key: 'hunter2' }]) })).toThrow(
+			'API key "weak" is too short'
+		);
+		expect(() => loadApiKeys({ ...env, SHARED_SECRET: '' })).toThrow('API key "default" is too short');
+	});
+
+	it('defaults to the first allowed root, or FOLDER_ID for unrestricted keys', () => {
+		const env = { FOLDER_ID: 'root', SHARED_SECRET: SHARED_SECRET };
+
+		expect(resolveRoot({ name: 'k', scheme: 'bearer', roots: ['a', 'b'] }, null, env)).toBe('a');
+		expect(resolveRoot({ name: 'k', scheme: 'bearer', roots: ['a', 'b'] }, 'b', env)).toBe('b');
+		expect(resolveRoot({ name: 'default', scheme: 'bearer' }, null, env)).toBe('root');
 	});
 });
@@ -0,0 +1,73 @@
+// test/json.spec.ts
+import { describe, it, expect } from 'vitest';
+import { inferJsonSchema, queryJsonPath } from '../src/json';
+
+const EXPORT = {
+	course: 'ISE',
+	'last updated': '2024-03-01',
+	students: [
+		{ name: 'Sam', group: 'T1', score: 78, tags: ['late'] },
+		{ name: 'Ana', group: 'T2', score: 91.5, tags: [] },
+		{ name: 'Kai', group: 'T1', score: null },
+	],
+};
+
+describe('inferJsonSchema', () => {
+	it('lists key paths with types, array lengths and samples', () => {
+		const schema = inferJsonSchema(EXPORT);
+		const byPath = Object.fromEntries(schema.paths.map((entry) => [entry.path, entry]));
+
+		expect(schema.rootType).toBe('object');
+		expect(byPath["$['last updated']"].types).toEqual(['string']);
+		expect(byPath['$.students'].arrayLength).toEqual({ min: 3, max: 3 });
+		expect(byPath['$.students[*].score']).toMatchObject({ types: ['number', 'null'], count: 3, samples: [78, 91.5, null] });
+		expect(byPath['$.students[*].tags'].arrayLength).toEqual({ min: 0, max: 1 });
+	});
+
+	it('marks long arrays as sampled and stops at the path limit', () => {
+		const schema = inferJsonSchema(
+			{ items: Array.from({ length: 500 }, (_, i) => ({ [`key${i % 10}`]: i })) },
+			{ maxArrayItems: 20, maxPaths: 5 }
+		);
+
+		expect(schema.paths.find((entry) => entry.path === '$.items')?.sampledItems).toBe(20);
+		expect(schema.paths).toHaveLength(5);
+		expect(schema.truncated).toBe(true);
+	});
+});
+
+describe('queryJsonPath', () => {
+	it('selects fields, indexes and slices', () => {
+		expect(queryJsonPath(EXPORT, '$.students[*].name').matches.map((match) => match.value)).toEqual(['Sam', 'Ana', 'Kai']);
+		expect(queryJsonPath(EXPORT, '$.students[-1].name').matches).toEqual([{ path: '$.students[2].name', value: 'Kai' }]);
+		expect(queryJsonPath(EXPORT, "$['last updated']").matches[0].value).toBe('2024-03-01');
+		expect(queryJsonPath(EXPORT, 'students[0:2].group').matches.map((match) => match.value)).toEqual(['T1', 'T2']);
+	});
+
+	it('filters array items and searches recursively', () => {
+		expect(
+			queryJsonPath(EXPORT, "$.students[?(@.score > 80 || @.group == 'T1' && @.tags)].name").matches.map((match) => match.value)
+		).toEqual(['Sam', 'Ana']);
+		expect(queryJsonPath(EXPORT, '$..tags').matchCount).toBe(2);
+	});
+
+	it('truncates long arrays and marks them', () => {
+		const result = queryJsonPath({ rows: Array.from({ length: 10 }, (_, i) => i) }, '$.rows', { maxArrayItems: 3 });
+
+		expect(result.matches[0].value).toEqual([0, 1, 2]);
+		expect(result.truncatedArrays).toEqual([{ path: '$.rows', length: 10, kept: 3 }]);
+	});
+
+	it('stops at the match cap without overflowing the stack on huge arrays', () => {
+		const rows = Array.from({ length: 200000 }, (_, i) => i);
+
+		expect(() => queryJsonPath({ rows }, '$.rows[*]')).toThrow('Path matches too many values');
+	});
+
+	it('matches filter regexes, refusing long ones and nested repeats', () => {
+		expect(queryJsonPath(EXPORT, '$.students[?(@.name =~ /^(sa|ka)/i)].name').matches.map((match) => match.value)).toEqual(['Sam', 'Kai']);
+		expect(() => queryJsonPath(EXPORT, '$.students[?(@.name =~ /^(a+)+$/)]')).toThrow('repeats a group that contains a repeat');
+		expect(() => queryJsonPath(EXPORT, '$.students[?(@.name =~ /(?:\\w*)*x/)]')).toThrow('repeats a group');
+		expect(() => queryJsonPath(EXPORT, `$.students[?(@.name =~ /${'a'.repeat(201)}/)]`)).toThrow('longer than 200 characters');
+	});
+});
@@ -0,0 +1,140 @@
+// test/officeDocs.spec.ts
+import { describe, it, expect } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { FileParser } from '../src/FileParser';
+import { unzipOfficeFile } from '../src/officeDocs';
+
+const CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+function pack(parts: Record<string, string>): ArrayBuffer {
+	const zipped = zipSync(
+		Object.fromEntries(Object.entries({ '[Content_Types].xml': CONTENT_TYPES, ...parts }).map(([name, xml]) => [name, strToU8(xml)]))
+	);
+	return zipped.buffer.slice(zipped.byteOffset, zipped.byteOffset + zipped.byteLength) as ArrayBuffer;
+}
+
+function relationships(entries: Array<[id: string, type: string, target: string]>): string {
+	return `<Relationships>${entries.map(([id, type, target]) => `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`).join('')}</Relationships>`;
+}
+
+describe('FileParser Office Open XML', () => {
+	it('parses a Word document with headings, lists, tables and properties', async () => {
+		const fileData = pack({
+			'word/document.xml': `<w:document><w:body>
+				<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Project Brief</w:t></w:r></w:p>
+				<w:p><w:r><w:t xml:space="preserve">Scope &amp; goals </w:t></w:r><w:r><w:t>for Week 3.</w:t></w:r></w:p>
+				<w:p><w:pPr><w:numPr><w:ilvl w:val="1"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>Deliverable</w:t></w:r></w:p>
+				<w:tbl><w:tr><w:tc><w:p><w:r><w:t>Task</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Owner</w:t></w:r></w:p></w:tc></w:tr>
+				<w:tr><w:tc><w:p><w:r><w:t>Report</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Ana</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+			</w:body></w:document>`,
+			'docProps/core.xml': `<cp:coreProperties><dc:title>Brief</dc:title><dc:creator>Ana Lim</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">2024-02-01T09:00:00Z</dcterms:created></cp:coreProperties>`,
+		});
+
+		const result = await FileParser.parseFile(
+			fileData,
+			'brief.docx',
+			'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+		);
+
+		expect(result.success).toBe(true);
+		expect(result.data?.content).toBe(
+			'# Project Brief\n\nScope & goals for Week 3.\n\n  - Deliverable\n\n| Task | Owner |\n| --- | --- |\n| Report | Ana |'
+		);
+		expect(result.data?.metadata).toMatchObject({ fileType: 'DOCX', title: 'Brief', author: 'Ana Lim' });
+		expect(result.data?.metadata.creationDate?.toISOString()).toBe('2024-02-01T09:00:00.000Z');
+	});
+
+	it('parses every sheet of a workbook as CSV, resolving shared strings and dates', async () => {
+		const fileData = pack({
+			'xl/workbook.xml': `<workbook><sheets><sheet name="Marks" sheetId="1" r:id="rId1"/><sheet name="Empty" sheetId="2" r:id="rId2"/></sheets></workbook>`,
+			'xl/_rels/workbook.xml.rels': relationships([
+				['rId1', 'worksheet', 'worksheets/sheet1.xml'],
+				['rId2', 'worksheet', 'worksheets/sheet2.xml'],
+				['rId3', 'sharedStrings', 'sharedStrings.xml'],
+				['rId4', 'styles', 'styles.xml'],
+			]),
+			'xl/sharedStrings.xml': `<sst><si><t>Name</t></si><si><t>Due</t></si><si><r><t>Lee, </t></r><r><t>Sam</t></r></si></sst>`,
+			'xl/styles.xml': `<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>`,
+			'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+				<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Pass</t></is></c></row>
+				<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" s="1"><v>45352</v></c><c r="C2" t="b"><v>1</v></c></row>
+				<row r="4"><c r="C4"><v>7.5</v></c></row>
+			</sheetData></worksheet>`,
+			'xl/worksheets/sheet2.xml': `<worksheet><sheetData/></worksheet>`,
+		});
+
+		const result = await FileParser.parseFile(fileData, 'marks.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+
+		expect(result.success).toBe(true);
+		expect(result.data?.content).toBe('## Marks\n\nName,Due,Pass\n"Lee, Sam",2024-03-01,TRUE\n\n,,7.5\n\n## Empty\n\n');
+		expect(result.data?.metadata.sheetNames).toEqual(['Marks', 'Empty']);
+	});
+
+	it('parses slides in presentation order with their speaker notes', async () => {
+		const slide = (text: string) =>
+			`<p:sld><p:cSld><p:spTree><p:sp><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:sld>`;
+		const fileData = pack({
+			'ppt/presentation.xml': `<p:presentation><p:sldIdLst><p:sldId id="257" r:id="rId3"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst></p:presentation>`,
+			'ppt/_rels/presentation.xml.rels': relationships([
+				['rId2', 'slide', 'slides/slide1.xml'],
+				['rId3', 'slide', 'slides/slide2.xml'],
+			]),
+			'ppt/slides/slide1.xml': slide('Second'),
+			'ppt/slides/slide2.xml': slide('First'),
+			'ppt/slides/_rels/slide2.xml.rels': relationships([['rId1', 'notesSlide', '../notesSlides/notesSlide1.xml']]),
+			'ppt/notesSlides/notesSlide1.xml': `<p:notes><p:cSld><p:spTree>
+				<p:sp><p:nvSpPr><p:nvPr><p:ph type="body"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Say hello</a:t></a:r></a:p></p:txBody></p:sp>
+				<p:sp><p:nvSpPr><p:nvPr><p:ph type="sldNum"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>1</a:t></a:r></a:p></p:txBody></p:sp>
+			</p:spTree></p:cSld></p:notes>`,
+		});
+
+		const result = await FileParser.parseFile(
+			fileData,
+			'deck.pptx',
+			'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+		);
+
+		expect(result.success).toBe(true);
+		expect(result.data?.content).toBe('## Slide 1\n\nFirst\n\nSpeaker notes:\nSay hello\n\n## Slide 2\n\nSecond');
+		expect(result.data?.metadata.pageCount).toBe(2);
+	});
+
+	it('refuses packages whose XML decompresses beyond the size caps', async () => {
+		const bomb = pack({ 'word/document.xml': `<w:document>${' '.repeat(200000)}</w:document>` });
+
+		expect(() => unzipOfficeFile(bomb, { maxPartBytes: 100000 })).toThrow(expect.objectContaining({ code: 'TOO_LARGE' }));
+		expect(() => unzipOfficeFile(pack({ 'a.xml': 'x'.repeat(600), 'b.xml': 'y'.repeat(600) }), { maxTotalBytes: 1000 })).toThrow(
+			expect.objectContaining({ code: 'TOO_LARGE' })
+		);
+		expect(Object.keys(unzipOfficeFile(bomb))).toContain('word/document.xml');
+	});
+
+	it('leaves out rows numbered past the row cap instead of padding up to them', async () => {
+		const fileData = pack({
+			'xl/workbook.xml': `<workbook><sheets><sheet name="Marks" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+			'xl/_rels/workbook.xml.rels': relationships([['rId1', 'worksheet', 'worksheets/sheet1.xml']]),
+			'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+				<row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c></row>
+				<row r="1048576"><c r="A1048576" t="inlineStr"><is><t>Far away</t></is></c></row>
+			</sheetData></worksheet>`,
+		});
+
+		const result = await FileParser.parseFile(fileData, 'marks.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+
+		expect(result.data?.content).toBe('## Marks\n\nName');
+		expect(result.data?.metadata.truncated).toBe(true);
+	});
+
+	it('reports a file that is not a zip package', async () => {
+		const result = await FileParser.parseFile(
+			new TextEncoder().encode('plain text').buffer as ArrayBuffer,
+			'fake.docx',
+			'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+		);
+
+		expect(result.success).toBe(false);
+		expect(result.error?.code).toBe('PARSE_FAILED');
+		expect(result.error?.message).toMatch(/^Failed to parse DOCX file/);
+	});
+});
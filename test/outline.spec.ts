@@ -0,0 +1,82 @@
+// test/outline.spec.ts
+import { describe, it, expect } from 'vitest';
+import { parseOutline, findSection, getSectionContent, flattenSections } from '../src/outline';
+import { FileParser } from '../src/FileParser';
+
+const HANDBOOK = [
+	'# ISE Handbook',
+	'Welcome. See the [course page](https://example.edu/ise).',
+	'',
+	'## Week 3',
+	'',
+	'### Assessment',
+	'| Task | Weight |',
+	'| --- | --- |',
+	'| Report | 40% |',
+	'| Demo | 60% |',
+	'',
+	'```bash',
+	'# not a heading',
+	'npm test',
+	'```',
+	'',
+	'### Reading',
+	'Chapter 4.',
+	'',
+	'Week 4',
+	'------',
+	'Project kickoff <https://example.edu/kickoff>.',
+].join('\n');
+
+describe('parseOutline', () => {
+	it('builds a heading tree with line spans and skips headings inside code blocks', () => {
+		const outline = parseOutline(HANDBOOK);
+		const flat = flattenSections(outline.sections);
+
+		expect(flat.map((section) => `${section.level} ${section.path.join(' > ')} ${section.startLine}-${section.endLine}`)).toEqual([
+			'1 ISE Handbook 1-22',
+			'2 ISE Handbook > Week 3 4-19',
+			'3 ISE Handbook > Week 3 > Assessment 6-16',
+			'3 ISE Handbook > Week 3 > Reading 17-19',
+			'2 ISE Handbook > Week 4 20-22',
+		]);
+	});
+
+	it('locates code blocks, links and tables by section', () => {
+		const { codeBlocks, links, tables } = parseOutline(HANDBOOK);
+
+		expect(codeBlocks).toEqual([{ language: 'bash', startLine: 12, endLine: 15, section: 'ISE Handbook > Week 3 > Assessment' }]);
+		expect(links.map((link) => link.url)).toEqual(['https://example.edu/ise', 'https://example.edu/kickoff']);
+		expect(tables).toEqual([
+			{ columns: ['Task', 'Weight'], rowCount: 2, startLine: 7, endLine: 10, section: 'ISE Handbook > Week 3 > Assessment' },
+		]);
+	});
+});
+
+describe('findSection', () => {
+	const { sections } = parseOutline(HANDBOOK);
+
+	it('matches full and partial heading paths case-insensitively', () => {
+		expect(findSection(sections, 'ISE Handbook > Week 3 > Assessment')?.startLine).toBe(6);
+		expect(findSection(sections, 'week 3 > reading')?.startLine).toBe(17);
+		expect(findSection(sections, ['Week 4'])?.level).toBe(2);
+		expect(findSection(sections, 'Week 5')).toBeUndefined();
+	});
+
+	it('returns the section text with its subsections', () => {
+		const section = getSectionContent(HANDBOOK, findSection(sections, 'Week 3')!);
+
+		expect(section.text.startsWith('## Week 3\n\n### Assessment')).toBe(true);
+		expect(section.text.endsWith('Chapter 4.')).toBe(true);
+		expect(section.subsections).toEqual(['Assessment', 'Reading']);
+	});
+});
+
+describe('FileParser Markdown', () => {
+	it('attaches the outline and uses it for headings', async () => {
+		const result = await FileParser.parseFile(new TextEncoder().encode(HANDBOOK).buffer as ArrayBuffer, 'handbook.md', 'text/markdown');
+
+		expect(result.data?.outline?.sections[0].title).toBe('ISE Handbook');
+		expect(FileParser.extractKeyInformation(result.data!).headings).toEqual(['ISE Handbook', 'Week 3', 'Assessment', 'Reading', 'Week 4']);
+	});
+});
@@ -0,0 +1,95 @@
+// test/parseCache.spec.ts
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { FileParser, FileParseResult } from '../src/FileParser';
+import { ParseCache } from '../src/parseCache';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+function parsed(content: string): FileParseResult {
+	return {
+		success: true,
+		data: {
+			content,
+			metadata: {
+				fileName: 'notes.txt',
+				fileType: 'TEXT',
+				fileSize: content.length,
+				creationDate: new Date('2025-03-01T00:00:00.000Z'),
+			},
+		},
+	};
+}
+
+describe('ParseCache', () => {
+	it('keys entries by file version and parse options', () => {
+		expect(ParseCache.keyFor({ fileId: 'f1', modifiedTime: '2025-01-01T00:00:00.000Z', md5Checksum: 'abc' })).toBe('parse:f1:abc:all');
+		expect(ParseCache.keyFor({ fileId: 'f1', modifiedTime: '2025-01-01T00:00:00.000Z' }, { fromPage: 2, removeHeadersFooters: true })).toBe(
+			'parse:f1:2025-01-01T00:00:00.000Z:from=2&strip'
+		);
+		expect(ParseCache.keyFor({ fileId: 'f1' })).toBeUndefined();
+	});
+
+	it('returns stored results with their dates and misses on a new version', async () => {
+		const cache = new ParseCache(env.PARSE_CACHE);
+		await cache.put({ fileId: 'f2', md5Checksum: 'v1' }, {}, parsed('hello'));
+
+		const hit = await cache.get({ fileId: 'f2', md5Checksum: 'v1' });
+
+		expect(hit?.data?.content).toBe('hello');
+		expect(hit?.data?.metadata.creationDate).toBeInstanceOf(Date);
+		expect(await cache.get({ fileId: 'f2', md5Checksum: 'v2' })).toBeUndefined();
+	});
+
+	it('skips failed, truncated and oversized results and invalidates every version of a file', async () => {
+		const cache = new ParseCache(env.PARSE_CACHE, { maxBytes: 1000 });
+		const partial = parsed('first lines');
+		partial.data!.metadata.truncated = true;
+
+		expect(await cache.put({ fileId: 'f3', md5Checksum: 'big' }, {}, parsed('x'.repeat(2000)))).toBe(false);
+		expect(await cache.put({ fileId: 'f3', md5Checksum: 'partial' }, {}, partial)).toBe(false);
+		expect(
+			await cache.put(
+				{ fileId: 'f3', md5Checksum: 'bad' },
+				{},
+				{ success: false, error: { code: 'PARSE_FAILED', message: 'nope', retryable: false } }
+			)
+		).toBe(false);
+		await cache.put({ fileId: 'f3', md5Checksum: 'v1' }, {}, parsed('one'));
+		await cache.put({ fileId: 'f3', md5Checksum: 'v2' }, { fromPage: 1 }, parsed('two'));
+
+		expect(await cache.invalidate('f3')).toBe(2);
+		expect(await cache.get({ fileId: 'f3', md5Checksum: 'v1' })).toBeUndefined();
+	});
+});
+
+describe('FileParser.parseFileFromDrive with PARSE_CACHE', () => {
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('downloads an unchanged file only once', async () => {
+		const testEnv = { ...(await createTestEnv()), GOOGLE_PROJECT_ID: 'project', PARSE_CACHE: env.PARSE_CACHE };
+		const drive = fetchMock.get('https://www.googleapis.com');
+		drive
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files/cachedFile01?fields=') })
+			.reply(200, { id: 'cachedFile01', name: 'notes.txt', mimeType: 'text/plain', md5Checksum: 'md5-1' })
+			.times(2);
+		drive.intercept({ path: '/drive/v3/files/cachedFile01?alt=media' }).reply(200, 'Lecture notes');
+
+		const first = await FileParser.parseFileFromDrive('cachedFile01', testEnv);
+		const second = await FileParser.parseFileFromDrive('cachedFile01', testEnv);
+
+		expect(first).toMatchObject({ success: true, cached: false });
+		expect(second).toMatchObject({ success: true, cached: true });
+		expect(second.data?.content).toBe(first.data?.content);
+	});
+});
@@ -0,0 +1,91 @@
+// test/paths.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { resolvePath, resolveItem, isPathReference, splitPath } from '../src/paths';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+const FOLDER = 'application/vnd.google-apps.folder';
+
+function mockListing(folderId: string, files: object[]): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes(`%27${folderId}%27+in+parents`) })
+		.reply(200, { files });
+}
+
+describe('path resolution', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>>;
+
+	beforeAll(async () => {
+		env = await createTestEnv();
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('walks from the root, ignoring case and extra slashes, and returns real names in the path', async () => {
+		mockListing('rootFolderId0001', [
+			{ id: 'week5Folder', name: 'Week 5', mimeType: FOLDER },
+			{ id: 'week6Folder', name: 'Week 6', mimeType: FOLDER },
+		]);
+		mockListing('week5Folder', [{ id: 'notesFolder', name: 'Lecture Notes', mimeType: FOLDER }]);
+		mockListing('notesFolder', [{ id: 'slidesFile', name: 'Slides.pdf', mimeType: 'application/pdf' }]);
+
+		const result = await resolvePath(env, '/week 5//lecture notes/slides.PDF');
+
+		expect(result).toMatchObject({ path: 'week 5/lecture notes/slides.PDF', ambiguous: false });
+		expect(result.matches).toEqual([
+			{ id: 'slidesFile', name: 'Slides.pdf', mimeType: 'application/pdf', isFolder: false, path: 'Week 5/Lecture Notes/Slides.pdf' },
+		]);
+	});
+
+	it('returns every item that shares a name, and refuses to pick one for other tools', async () => {
+		const notes = [
+			{ id: 'notesA', name: 'notes.md', mimeType: 'text/markdown' },
+			{ id: 'notesB', name: 'notes.md', mimeType: 'text/markdown' },
+		];
+		mockListing('rootFolderId0001', notes);
+		mockListing('rootFolderId0001', notes);
+
+		const result = await resolvePath(env, 'notes.md');
+
+		expect(result.ambiguous).toBe(true);
+		expect(result.matches.map((item) => item.id)).toEqual(['notesA', 'notesB']);
+		await expect(resolveItem(env, 'notes.md', 'file ID')).rejects.toMatchObject({ code: 'INVALID_ARGUMENT' });
+	});
+
+	it('reports what the folder contains when a name is missing, and only matches folders after a trailing slash', async () => {
+		mockListing('rootFolderId0001', [{ id: 'syllabusFile', name: 'Syllabus.pdf', mimeType: 'application/pdf' }]);
+		mockListing('rootFolderId0001', [{ id: 'syllabusFile', name: 'Syllabus.pdf', mimeType: 'application/pdf' }]);
+
+		await expect(resolvePath(env, 'Week 9/notes.md')).rejects.toMatchObject({
+			code: 'NOT_FOUND',
+			message: 'Path not found: Week 9/notes.md. No folder named "Week 9" in /, which contains: Syllabus.pdf',
+		});
+		await expect(resolvePath(env, 'Syllabus.pdf/')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+	});
+});
+
+describe('path references', () => {
+	it('treats anything that cannot be a Drive ID as a path', () => {
+		expect(isPathReference('1AbC_d-EfGh')).toBe(false);
+		expect(isPathReference('slides.pdf')).toBe(true);
+		expect(isPathReference('Week 5')).toBe(true);
+		expect(isPathReference('/Week5')).toBe(true);
+	});
+
+	it('normalizes slashes and rejects ".."', () => {
+		expect(splitPath(' /a//b/./c/ ')).toEqual(['a', 'b', 'c']);
+		expect(() => splitPath('a/../b')).toThrow('may not contain ".."');
+	});
+});
@@ -0,0 +1,74 @@
+// test/pdfPages.spec.ts
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { FileParser } from '../src/FileParser';
+import { readPdfStructure, stripRepeatedLines, parsePdfDate } from '../src/pdfPages';
+import { pageStartLinesFor } from '../src/chunker';
+
+describe('stripRepeatedLines', () => {
+	const topics = ['Requirements', 'Design', 'Testing', 'Deployment'];
+	const pages = topics.map(
+		(topic, i) => `ISE Course Handbook\n${topic}\nNotes on ${topic.toLowerCase()}.\nSee chapter ${i + 2}.\nPage ${i + 1} of 4`
+	);
+
+	it('drops running headers and page numbers that repeat on most pages', () => {
+		const { pages: cleaned, removedLines } = stripRepeatedLines(pages);
+
+		expect(cleaned[0]).toBe('Requirements\nNotes on requirements.\nSee chapter 2.');
+		expect(removedLines).toContain('ISE Course Handbook');
+	});
+
+	it('leaves short documents alone apart from bare page numbers', () => {
+		const { pages: cleaned } = stripRepeatedLines(['Title\nBody one\n1', 'Title\nBody two\n2']);
+
+		expect(cleaned).toEqual(['Title\nBody one', 'Title\nBody two']);
+	});
+});
+
+describe('readPdfStructure', () => {
+	it('reads the page count with pdf-lib', async () => {
+		const doc = await PDFDocument.create();
+		doc.addPage();
+		doc.addPage();
+		const bytes = await doc.save();
+
+		const structure = await readPdfStructure(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+
+		expect(structure).toEqual({ pageCount: 2, bookmarks: [] });
+	});
+});
+
+describe('FileParser PDF pages', () => {
+	it('extracts a page range and strips the running header', async () => {
+		const doc = await PDFDocument.create();
+		const font = await doc.embedFont(StandardFonts.Helvetica);
+		for (let i = 1; i <= 4; i++) {
+			const page = doc.addPage();
+			page.drawText('Running Header', { x: 50, y: 750, font, size: 12 });
+			page.drawText(`Body text for page ${i}`, { x: 50, y: 600, font, size: 12 });
+			page.drawText(`${i}`, { x: 300, y: 30, font, size: 10 });
+		}
+		const bytes = await doc.save();
+		const fileData = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+		const result = await FileParser.parseFile(fileData, 'handout.pdf', 'application/pdf', { fromPage: 2, removeHeadersFooters: true });
+
+		expect(result.success).toBe(true);
+		expect(result.data?.pages).toEqual(['Body text for page 2', 'Body text for page 3', 'Body text for page 4']);
+		expect(result.data?.metadata.pageCount).toBe(4);
+		expect(result.data?.metadata.pageRange).toEqual({ from: 2, to: 4 });
+	});
+});
+
+describe('parsePdfDate', () => {
+	it('reads dates with a timezone offset', () => {
+		expect(parsePdfDate("D:20240131120000+01'00'")?.toISOString()).toBe('2024-01-31T11:00:00.000Z');
+		expect(parsePdfDate('not a date')).toBeUndefined();
+	});
+});
+
+describe('pageStartLinesFor', () => {
+	it('accounts for multi-line pages and the page separator', () => {
+		expect(pageStartLinesFor(['a\nb', 'c', 'd'])).toEqual([1, 4, 6]);
+	});
+});
@@ -0,0 +1,107 @@
+// test/revisions.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { listRevisions, diffRevisions } from '../src/revisions';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+function mockFile(fileId: string, name: string, mimeType: string): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith(`/drive/v3/files/${fileId}?fields=`) })
+		.reply(200, { id: fileId, name, mimeType });
+}
+
+function mockRevisions(fileId: string, revisions: object[]): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith(`/drive/v3/files/${fileId}/revisions?`) })
+		.reply(200, { revisions });
+}
+
+describe('revisions', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>>;
+
+	beforeAll(async () => {
+		env = await createTestEnv();
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('lists revisions with who changed them', async () => {
+		mockFile('notesFile01', 'notes.txt', 'text/plain');
+		mockRevisions('notesFile01', [
+			{
+				id: 'r1',
+				modifiedTime: '2026-03-01T10:00:00Z',
+				size: '12',
+				lastModifyingUser: { displayName: 'Ada', emailAddress: 'ada@example.edu' },
+			},
+			{ id: 'r2', modifiedTime: '2026-03-02T10:00:00Z', mimeType: 'text/plain', keepForever: true },
+		]);
+
+		const result = await listRevisions(env, 'notesFile01');
+
+		expect(result).toEqual({
+			fileId: 'notesFile01',
+			name: 'notes.txt',
+			mimeType: 'text/plain',
+			revisions: [
+				{ id: 'r1', modifiedTime: '2026-03-01T10:00:00Z', mimeType: 'text/plain', size: 12, modifiedBy: 'ada@example.edu' },
+				{ id: 'r2', modifiedTime: '2026-03-02T10:00:00Z', mimeType: 'text/plain', keepForever: true },
+			],
+		});
+	});
+
+	it('downloads text revisions and diffs them', async () => {
+		mockFile('notesFile01', 'notes.txt', 'text/plain');
+		mockRevisions('notesFile01', [{ id: 'r1' }, { id: 'r2' }]);
+		const drive = fetchMock.get('https://www.googleapis.com');
+		drive.intercept({ path: '/drive/v3/files/notesFile01/revisions/r1?alt=media' }).reply(200, 'Due: Friday\nWorth 10%\n');
+		drive.intercept({ path: '/drive/v3/files/notesFile01/revisions/r2?alt=media' }).reply(200, 'Due: Monday\nWorth 10%\n');
+
+		const result = await diffRevisions(env, 'notesFile01', 'r1', 'r2');
+
+		expect(result.stats).toEqual({ added: 1, removed: 1, unchanged: 1 });
+		expect(result.diff).toBe(
+			['--- notes.txt@r1', '+++ notes.txt@r2', '@@ -1,2 +1,2 @@', '-Due: Friday', '+Due: Monday', ' Worth 10%'].join('\n')
+		);
+	});
+
+	it('exports both revisions of a Google Doc in a format they share', async () => {
+		const exportUrl = (revision: string, format: string) =>
+			`https://docs.google.com/feeds/download/documents/export/Export?id=handoutDoc1&revision=${revision}&exportFormat=${format}`;
+		mockFile('handoutDoc1', 'Handout', 'application/vnd.google-apps.document');
+		mockRevisions('handoutDoc1', [
+			{ id: '3', exportLinks: { 'text/plain': exportUrl('3', 'txt') } },
+			{ id: '7', exportLinks: { 'text/plain': exportUrl('7', 'txt'), 'text/markdown': exportUrl('7', 'md') } },
+		]);
+		const docs = fetchMock.get('https://docs.google.com');
+		docs.intercept({ path: (path) => path.includes('revision=3') && path.includes('exportFormat=txt') }).reply(200, 'Week 1\nIntro\n');
+		docs
+			.intercept({ path: (path) => path.includes('revision=7') && path.includes('exportFormat=txt') })
+			.reply(200, 'Week 1\nIntro\nReading list\n');
+
+		const result = await diffRevisions(env, 'handoutDoc1', '3', '7');
+
+		expect(result.comparedAs).toBe('text/plain');
+		expect(result.stats).toEqual({ added: 1, removed: 0, unchanged: 2 });
+	});
+
+	it('reports unknown revision IDs', async () => {
+		mockFile('notesFile01', 'notes.txt', 'text/plain');
+		mockRevisions('notesFile01', [{ id: 'r1' }]);
+
+		await expect(diffRevisions(env, 'notesFile01', 'r1', 'r9')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+	});
+});
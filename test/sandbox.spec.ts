@@ -0,0 +1,73 @@
+// test/sandbox.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { clearFolderIndexCache } from '../src/folderIndex';
+import { ensureInRoot, clearSandboxCache } from '../src/sandbox';
+import { SandboxError } from '../src/driveIds';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+function mockItem(id: string, item: object): void {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith(`/drive/v3/files/${id}?fields=`) })
+		.reply(200, { id, ...item });
+}
+
+describe('ensureInRoot', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>>;
+
+	beforeAll(async () => {
+		env = await createTestEnv();
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		clearFolderIndexCache();
+		clearSandboxCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('rejects malformed IDs before calling Drive', async () => {
+		await expect(ensureInRoot(env, "x' or name contains '", 'file ID')).rejects.toMatchObject({ reason: 'INVALID_ID' });
+		await expect(ensureInRoot(env, '../files/abc')).rejects.toBeInstanceOf(SandboxError);
+	});
+
+	it('walks parents the folder index does not know yet and caches the lookups', async () => {
+		mockTokenEndpoint();
+		const drive = fetchMock.get('https://www.googleapis.com');
+		drive
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('rootFolderId0001') })
+			.reply(200, { files: [{ id: 'week1Folder', name: 'Week 1', parents: ['rootFolderId0001'] }] });
+		drive.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('week1Folder') }).reply(200, { files: [] });
+		mockItem('notesFile01', { name: 'notes.txt', mimeType: 'text/plain', parents: ['newFolder01'] });
+		mockItem('newFolder01', { name: 'New', mimeType: 'application/vnd.google-apps.folder', parents: ['week1Folder'] });
+
+		const first = await ensureInRoot(env, 'notesFile01');
+		const second = await ensureInRoot(env, 'notesFile01');
+
+		expect(first).toMatchObject({ name: 'notes.txt', isFolder: false, path: 'Week 1/New/notes.txt' });
+		expect(second).toEqual(first);
+	});
+
+	it('refuses items outside the root', async () => {
+		mockTokenEndpoint();
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('rootFolderId0001') })
+			.reply(200, { files: [] });
+		mockItem('privateFile', { name: 'salaries.xlsx', mimeType: 'text/plain', parents: ['myDriveRoot'] });
+		mockItem('myDriveRoot', { name: 'My Drive', mimeType: 'application/vnd.google-apps.folder' });
+
+		await expect(ensureInRoot(env, 'privateFile', 'file ID')).rejects.toMatchObject({
+			reason: 'OUTSIDE_ROOT',
+			message: 'Not inside the root folder: file ID privateFile',
+		});
+	});
+});
@@ -0,0 +1,78 @@
+// test/search.spec.ts
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { clearTokenCache } from '../src/auth';
+import { clearFolderIndexCache } from '../src/folderIndex';
+import { buildSearchQuery, searchFiles } from '../src/search';
+import { escapeQueryValue } from '../src/gdrive';
+import { createTestEnv, mockTokenEndpoint } from './helpers';
+
+describe('Drive search queries', () => {
+	it('escapes quotes and backslashes in user input', () => {
+		expect(escapeQueryValue("it's C:\\notes")).toBe("it\\'s C:\\\\notes");
+	});
+
+	it('searches name and full text by default', () => {
+		expect(buildSearchQuery("lecture's")).toBe("(name contains 'lecture\\'s' or fullText contains 'lecture\\'s') and trashed=false");
+	});
+
+	it('adds mime type, date and owner filters', () => {
+		const q = buildSearchQuery('rubric', {
+			mode: 'name',
+			mimeType: 'application/pdf',
+			modifiedAfter: '2025-01-01',
+			owner: 'lecturer@example.com',
+		});
+
+		expect(q).toBe(
+			"(name contains 'rubric') and trashed=false and mimeType='application/pdf' and modifiedTime > '2025-01-01T00:00:00.000Z' and 'lecturer@example.com' in owners"
+		);
+	});
+
+	it('rejects invalid dates', () => {
+		expect(() => buildSearchQuery('x', { modifiedBefore: 'next week' })).toThrow('Invalid modifiedBefore date');
+	});
+});
+
+describe('searchFiles', () => {
+	let env: Awaited<ReturnType<typeof createTestEnv>>;
+
+	beforeAll(async () => {
+		env = await createTestEnv();
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		clearFolderIndexCache();
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+		mockTokenEndpoint();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.deactivate();
+	});
+
+	it('drops results outside the root and gives the rest root-relative paths', async () => {
+		const drive = fetchMock.get('https://www.googleapis.com');
+		drive
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('%27rootFolderId0001%27+in+parents') })
+			.reply(200, { files: [{ id: 'week1Folder', name: 'Week 1', parents: ['rootFolderId0001'] }] });
+		drive
+			.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('%27week1Folder%27+in+parents') })
+			.reply(200, { files: [] });
+		drive.intercept({ path: (path) => path.startsWith('/drive/v3/files?') && path.includes('fullText+contains+%27rubric%27') }).reply(200, {
+			files: [
+				{ id: 'privateFile', name: 'rubric-draft.txt', mimeType: 'text/plain', parents: ['myDriveRoot'] },
+				{ id: 'rubricFile1', name: 'rubric.pdf', mimeType: 'application/pdf', parents: ['week1Folder'], size: '2048' },
+			],
+		});
+
+		const results = await searchFiles(env, 'rubric');
+
+		expect(results).toEqual([
+			expect.objectContaining({ id: 'rubricFile1', path: 'Week 1/rubric.pdf', folderPath: 'Week 1', isFolder: false, size: 2048 }),
+		]);
+	});
+});
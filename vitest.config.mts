@@ -5,6 +5,18 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					bindings: {
+						GOOGLE_CLIENT_EMAIL: 'svc@example.iam.gserviceaccount.com',
+						GOOGLE_PRIVATE_KEY: 'unused-in-rpc-tests',
+						GOOGLE_PROJECT_ID: 'test-project',
+						FOLDER_ID: 'rootFolderId0001',
+						SHARED_SECRET: 'test-shared-secret-0123456789abcdef0123456789abcdef',
+						API_KEYS: JSON.stringify([
+							{ name: 'tutor-bot', key: 'tutor-bot-key-0123456789abcdef0123456789', tools: ['sayHello'], roots: ['rootFolderId0001'] },
+						]),
+					},
+				},
 			},
 		},
 	},
@@ -3,6 +3,9 @@
 declare namespace Cloudflare {
 	interface Env {
 		SHARED_SECRET: string;
+		CONTENT_INDEX: KVNamespace;
+		PARSE_CACHE: KVNamespace;
+		DRIVE_STATE: KVNamespace;
 	}
 }
 interface Env extends Cloudflare.Env {}